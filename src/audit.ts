@@ -0,0 +1,200 @@
+/**
+ * Severity of an advisory, from the least to the most severe
+ */
+export type AuditSeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * Severity from which advisories fail a run
+ */
+export type AuditThreshold = Exclude<AuditSeverity, 'info'>;
+
+/**
+ * Interface for a security advisory affecting an installed package
+ */
+export interface AuditAdvisory {
+    id: string; // advisory id in the registry's database
+    name: string; // the vulnerable package
+    severity: AuditSeverity;
+    title: string;
+    url?: string;
+    range?: string; // vulnerable versions
+    roots: string[]; // top-level packages that bring the vulnerable one in, when the report tells
+}
+
+// From the least to the most severe
+export const SEVERITIES: AuditSeverity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+/**
+ * Whether a value is a severity a run can be failed from.
+ */
+export function isAuditThreshold(value: unknown): value is AuditThreshold {
+    return value !== 'info' && SEVERITIES.includes(value as AuditSeverity);
+}
+
+/**
+ * Whether a severity is at or above a threshold.
+ */
+export function meetsThreshold(severity: AuditSeverity, threshold: AuditThreshold): boolean {
+    return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(threshold);
+}
+
+/**
+ * Counts advisories by severity.
+ */
+export function countBySeverity(advisories: AuditAdvisory[]): Record<AuditSeverity, number> {
+    const counts = Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<AuditSeverity, number>;
+    advisories.forEach(advisory => counts[advisory.severity]++);
+    return counts;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toSeverity(value: unknown): AuditSeverity {
+    return SEVERITIES.includes(value as AuditSeverity) ? value as AuditSeverity : 'info';
+}
+
+/**
+ * Top-level package of a dependency path: 'a>b>c' with npm 6 and Yarn. pnpm
+ * paths start with the workspace project, '.>a>b>c' or 'packages__x>a>b'.
+ */
+function pathRoot(path: string, pnpm: boolean): string | undefined {
+    const segments = path.split('>').map(segment => segment.trim()).filter(Boolean);
+    return pnpm ? segments[1] : segments[0];
+}
+
+/**
+ * npm 7+ report: each vulnerable package lists the advisories it has (`via`
+ * objects) and the packages that depend on it (`effects`).
+ */
+function parseNpmReport(vulnerabilities: Json): AuditAdvisory[] {
+    const roots = (name: string, seen = new Set<string>()): string[] => {
+        const entry = vulnerabilities[name];
+        if (!isObject(entry) || seen.has(name)) return [];
+        seen.add(name);
+        const effects = (Array.isArray(entry.effects) ? entry.effects as unknown[] : [])
+            .filter((effect): effect is string => typeof effect === 'string');
+        const above = effects.flatMap(effect => roots(effect, seen));
+        return entry.isDirect || effects.length === 0 ? [name, ...above] : above;
+    };
+
+    const advisories: AuditAdvisory[] = [];
+    for (const [name, entry] of Object.entries(vulnerabilities)) {
+        if (!isObject(entry) || !Array.isArray(entry.via)) continue;
+        for (const via of entry.via.filter(isObject)) {
+            advisories.push({
+                id: String(via.source),
+                name: typeof via.name === 'string' ? via.name : name,
+                severity: toSeverity(via.severity),
+                title: String(via.title ?? ''),
+                ...(typeof via.url === 'string' && { url: via.url }),
+                ...(typeof via.range === 'string' && { range: via.range }),
+                roots: [...new Set(roots(name))]
+            });
+        }
+    }
+    return advisories;
+}
+
+/**
+ * npm 6, pnpm and Yarn 1 advisory, with the paths it was found at.
+ */
+function parseAdvisory(advisory: Json, paths: string[], pnpm = false): AuditAdvisory {
+    const findings: unknown[] = Array.isArray(advisory.findings) ? advisory.findings : [];
+    const findingPaths = findings.filter(isObject).flatMap((finding): unknown[] => Array.isArray(finding.paths) ? finding.paths : []);
+    const roots = [...paths, ...findingPaths].map(path => pathRoot(String(path), pnpm)).filter((root): root is string => Boolean(root));
+    return {
+        id: String(advisory.id ?? advisory.github_advisory_id),
+        name: String(advisory.module_name),
+        severity: toSeverity(advisory.severity),
+        title: String(advisory.title ?? ''),
+        ...(typeof advisory.url === 'string' && { url: advisory.url }),
+        ...(typeof advisory.vulnerable_versions === 'string' && { range: advisory.vulnerable_versions }),
+        roots: [...new Set(roots)]
+    };
+}
+
+/**
+ * Yarn 1 report: one JSON object per line, an `auditAdvisory` per path an
+ * advisory was found at.
+ */
+function parseYarnReport(lines: Json[]): AuditAdvisory[] {
+    const advisories = new Map<string, AuditAdvisory>();
+    for (const line of lines) {
+        if (line.type === 'error') {
+            throw new Error(String(line.data));
+        }
+        const data = isObject(line.data) ? line.data : {};
+        if (line.type !== 'auditAdvisory' || !isObject(data.advisory)) continue;
+        const path = isObject(data.resolution) ? data.resolution.path : undefined;
+        const advisory = parseAdvisory(data.advisory, typeof path === 'string' ? [path] : []);
+        const known = advisories.get(advisory.id);
+        if (known) {
+            known.roots = [...new Set([...known.roots, ...advisory.roots])];
+        } else {
+            advisories.set(advisory.id, advisory);
+        }
+    }
+    return [...advisories.values()];
+}
+
+/**
+ * Bun report: advisories by package name, without paths.
+ */
+function parseBunReport(report: Json): AuditAdvisory[] {
+    return Object.entries(report).flatMap(([name, entries]) => (entries as unknown[]).filter(isObject).map(entry => ({
+        id: String(entry.id),
+        name,
+        severity: toSeverity(entry.severity),
+        title: String(entry.title ?? ''),
+        ...(typeof entry.url === 'string' && { url: entry.url }),
+        ...(typeof entry.vulnerable_versions === 'string' && { range: entry.vulnerable_versions }),
+        roots: []
+    })));
+}
+
+/**
+ * Parses the JSON audit report of npm (6 and 7+), pnpm, Yarn 1 or Bun, detected
+ * from its shape; pnpm's has the shape of npm 6's, so it needs `packageManager`.
+ * Throws when the output is not a report, including the error reports npm
+ * prints when it cannot audit (no lockfile, registry unreachable).
+ */
+export function parseAuditReport(output: string, packageManager?: string): AuditAdvisory[] {
+    const text = output.trim();
+    if (text === '') {
+        throw new Error('the audit printed no report');
+    }
+
+    let report: unknown;
+    try {
+        report = JSON.parse(text);
+    } catch {
+        // Yarn 1 prints one JSON object per line
+        try {
+            return parseYarnReport(text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line)));
+        } catch (error) {
+            throw error instanceof SyntaxError ? new Error('the audit report is not JSON') : error;
+        }
+    }
+
+    if (!isObject(report)) {
+        throw new Error('the audit report is not a JSON object');
+    }
+    if (typeof report.type === 'string') {
+        return parseYarnReport([report]);
+    }
+    if (isObject(report.error)) {
+        throw new Error(String(report.error.summary ?? report.error.code ?? 'the audit failed'));
+    }
+    if (isObject(report.vulnerabilities)) {
+        return parseNpmReport(report.vulnerabilities);
+    }
+    if (isObject(report.advisories)) {
+        return Object.values(report.advisories).filter(isObject).map(advisory => parseAdvisory(advisory, [], packageManager === 'pnpm'));
+    }
+    if (Object.values(report).every(Array.isArray)) {
+        return parseBunReport(report);
+    }
+    throw new Error('unrecognized audit report');
+}
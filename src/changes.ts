@@ -0,0 +1,150 @@
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Interface for a package that a run added, updated or removed
+ */
+export interface PackageChange {
+    name: string;
+    type: 'added' | 'updated' | 'removed';
+    from?: string; // version before the run, unset when added
+    to?: string; // version after the run, unset when removed
+    direct: boolean; // listed in package.json, as opposed to pulled in by another package
+    path: string; // install location relative to the project, e.g. node_modules/a/node_modules/b
+}
+
+/**
+ * Interface for the packages installed in a project at one point in time
+ */
+export interface InstalledTree {
+    packages: Map<string, string>; // install location -> version
+    direct: Set<string>; // names listed in package.json
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+async function readJson(path: string): Promise<Record<string, unknown> | null> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+    return isRecord(parsed) ? parsed : null;
+}
+
+/**
+ * Reads the install locations of an npm lockfile: the `packages` map of
+ * lockfile v2/v3, or the nested `dependencies` of v1.
+ */
+function readLockfile(lockfile: Record<string, unknown>): Map<string, string> {
+    const packages = new Map<string, string>();
+    if (isRecord(lockfile.packages)) {
+        for (const [path, entry] of Object.entries<unknown>(lockfile.packages)) {
+            if (path.includes('node_modules/') && isRecord(entry) && typeof entry.version === 'string' && !entry.link) {
+                packages.set(path, entry.version);
+            }
+        }
+        return packages;
+    }
+    const walk = (dependencies: Record<string, unknown>, prefix: string): void => {
+        for (const [name, entry] of Object.entries<unknown>(dependencies)) {
+            if (!isRecord(entry)) continue;
+            const path = `${prefix}node_modules/${name}`;
+            if (typeof entry.version === 'string') packages.set(path, entry.version);
+            if (isRecord(entry.dependencies)) {
+                walk(entry.dependencies, `${path}/`);
+            }
+        }
+    };
+    walk(isRecord(lockfile.dependencies) ? lockfile.dependencies : {}, '');
+    return packages;
+}
+
+/**
+ * Lists the packages of a node_modules directory and of the node_modules nested
+ * in them. Symlinked packages (pnpm, workspaces) are listed but not descended into.
+ */
+async function scanNodeModules(cwd: string, prefix: string, packages: Map<string, string>): Promise<void> {
+    let entries;
+    try {
+        entries = await readdir(join(cwd, prefix, 'node_modules'), { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || !(entry.isDirectory() || entry.isSymbolicLink())) continue;
+        const names = entry.name.startsWith('@')
+            ? (await readdir(join(cwd, prefix, 'node_modules', entry.name)).catch(() => [])).map(name => `${entry.name}/${name}`)
+            : [entry.name];
+        for (const name of names) {
+            const path = `${prefix}node_modules/${name}`;
+            const manifest = await readJson(join(cwd, path, 'package.json')).catch(() => null);
+            if (typeof manifest?.version !== 'string') continue;
+            packages.set(path, manifest.version);
+            if (!entry.isSymbolicLink()) {
+                await scanNodeModules(cwd, `${path}/`, packages);
+            }
+        }
+    }
+}
+
+/**
+ * Reads what is installed in the project in `cwd`. npm's hidden lockfile
+ * (node_modules/.package-lock.json) describes the actual tree; without it the
+ * project lockfile is used, then node_modules itself is scanned.
+ */
+export async function readInstalledTree(cwd: string): Promise<InstalledTree> {
+    const manifest = await readJson(join(cwd, 'package.json')) ?? {};
+    const direct = new Set(DEPENDENCY_FIELDS.flatMap(field => {
+        const dependencies = manifest[field];
+        return isRecord(dependencies) ? Object.keys(dependencies) : [];
+    }));
+
+    for (const file of ['node_modules/.package-lock.json', 'npm-shrinkwrap.json', 'package-lock.json']) {
+        const lockfile = await readJson(join(cwd, file));
+        if (lockfile) {
+            return { packages: readLockfile(lockfile), direct };
+        }
+    }
+    const packages = new Map<string, string>();
+    await scanNodeModules(cwd, '', packages);
+    return { packages, direct };
+}
+
+/**
+ * Name of the package installed at a location: node_modules/a/node_modules/@s/b -> @s/b
+ */
+function packageName(path: string): string {
+    return path.slice(path.lastIndexOf('node_modules/') + 'node_modules/'.length);
+}
+
+/**
+ * Compares two trees of the same project and lists the packages added, updated
+ * and removed, ordered by location. A package is direct when it sits at the top
+ * of node_modules and package.json lists it, before or after.
+ */
+export function diffInstalledTrees(before: InstalledTree, after: InstalledTree): PackageChange[] {
+    const paths = [...new Set([...before.packages.keys(), ...after.packages.keys()])].sort();
+    const changes: PackageChange[] = [];
+    for (const path of paths) {
+        const from = before.packages.get(path);
+        const to = after.packages.get(path);
+        if (from === to) continue;
+        const name = packageName(path);
+        const direct = path === `node_modules/${name}` && (after.direct.has(name) || before.direct.has(name));
+        const type = from === undefined ? 'added' : to === undefined ? 'removed' : 'updated';
+        changes.push({
+            name,
+            type,
+            ...(from !== undefined && { from }),
+            ...(to !== undefined && { to }),
+            direct,
+            path
+        });
+    }
+    return changes;
+}
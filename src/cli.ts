@@ -0,0 +1,166 @@
+import { access } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import type { CommandRunner } from './runner.js';
+import type { Logger } from './logging.js';
+import { loadManifest, resolveProfile, ManifestError, DEFAULT_MANIFEST_FILES } from './manifest.js';
+import { installDependencies, type InstallationResult } from './index.js';
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_SUCCESS = 0;
+export const EXIT_INSTALL_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Interface for where the CLI runs: injectable so it can be driven in-process
+ */
+export interface CliContext {
+    cwd?: string; // defaults to process.cwd()
+    stdout?: (text: string) => void; // defaults to process.stdout
+    stderr?: (text: string) => void; // defaults to process.stderr
+    runner?: CommandRunner; // defaults to spawnRunner
+}
+
+/**
+ * Interface for parsed command-line arguments
+ */
+interface CliArgs {
+    manifest?: string;
+    profile?: string;
+    json: boolean;
+    verbose: boolean;
+    help: boolean;
+}
+
+export const USAGE = `Usage: dynamic-installer [manifest] [options]
+
+Installs the dependencies described by a manifest (JSON, or YAML when the "yaml"
+or "js-yaml" package is installed). Without a manifest path, looks for
+${DEFAULT_MANIFEST_FILES.join(', ')} in the current directory.
+
+Options:
+  -p, --profile <name>  Install the named profile on top of the top-level settings
+      --json            Print the installation result as JSON
+  -v, --verbose         Print detailed logs (to stderr with --json)
+  -h, --help            Show this help
+
+Exit codes: 0 when every dependency succeeded, 1 when any failed, 2 on usage or manifest errors.
+`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { json: false, verbose: false, help: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const [flag, inlineValue] = arg.startsWith('--') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+        switch (flag) {
+            case '-p':
+            case '--profile': {
+                const value = inlineValue ?? argv[++i];
+                if (value === undefined || value === '') throw new UsageError(`${flag} requires a profile name`);
+                args.profile = value;
+                break;
+            }
+            case '--json':
+                args.json = true;
+                break;
+            case '-v':
+            case '--verbose':
+                args.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                args.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option: ${arg}`);
+                if (args.manifest !== undefined) throw new UsageError(`Unexpected argument: ${arg}`);
+                args.manifest = arg;
+        }
+    }
+    return args;
+}
+
+async function findManifest(cwd: string): Promise<string> {
+    for (const file of DEFAULT_MANIFEST_FILES) {
+        const path = join(cwd, file);
+        try {
+            await access(path);
+            return path;
+        } catch {
+            // Try the next one
+        }
+    }
+    throw new ManifestError(`No manifest found in ${cwd} (looked for ${DEFAULT_MANIFEST_FILES.join(', ')})`);
+}
+
+/**
+ * Logger writing one line per entry, used for verbose output
+ */
+function createLineLogger(write: (text: string) => void): Logger {
+    const line = (message: string): void => write(`${message}\n`);
+    return { debug: line, info: line, warn: line, error: line };
+}
+
+function formatSummary(result: InstallationResult): string {
+    const lines = result.details.map(detail => {
+        const version = detail.version ? `@${detail.version}` : '';
+        return detail.success
+            ? `ok      ${detail.name}${version} (${detail.status})`
+            : `failed  ${detail.name} (${detail.status}): ${detail.message}`;
+    });
+    const failed = result.details.filter(detail => !detail.success).length;
+    lines.push(failed === 0
+        ? `${result.details.length} dependencies installed`
+        : `${failed} of ${result.details.length} dependencies failed`);
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths) and
+ * resolves with its exit code. Never throws.
+ */
+export async function runCli(argv: string[], context: CliContext = {}): Promise<number> {
+    const {
+        cwd = process.cwd(),
+        stdout = (text: string) => { process.stdout.write(text); },
+        stderr = (text: string) => { process.stderr.write(text); },
+        runner
+    } = context;
+
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (error) {
+        stderr(`${(error as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (args.help) {
+        stdout(USAGE);
+        return EXIT_SUCCESS;
+    }
+
+    let result: InstallationResult;
+    try {
+        const manifestPath = args.manifest ? resolve(cwd, args.manifest) : await findManifest(cwd);
+        const options = resolveProfile(await loadManifest(manifestPath), args.profile);
+        result = await installDependencies({
+            ...options,
+            // Paths in a manifest are relative to the manifest, not to where the CLI runs
+            cwd: options.cwd === undefined ? cwd : resolve(dirname(manifestPath), options.cwd),
+            ...(typeof options.policy === 'string' && { policy: resolve(dirname(manifestPath), options.policy) }),
+            ...(runner && { runner }),
+            verbose: false,
+            // Keep stdout parseable: with --json, verbose logs go to stderr
+            ...(args.verbose && { logger: createLineLogger(args.json ? stderr : stdout) })
+        });
+    } catch (error) {
+        stderr(`${(error as Error).message}\n`);
+        return error instanceof ManifestError ? EXIT_USAGE : EXIT_INSTALL_FAILED;
+    }
+
+    stdout(args.json ? `${JSON.stringify(result, null, 2)}\n` : formatSummary(result));
+    return result.success ? EXIT_SUCCESS : EXIT_INSTALL_FAILED;
+}
@@ -0,0 +1,76 @@
+import { parseRange, satisfies } from './semver.js';
+
+/**
+ * Interface for the conditions a dependency applies under. Every condition set
+ * must hold; a list matches any of its values.
+ */
+export interface DependencyCondition {
+    platform?: string | string[]; // process.platform values, e.g. 'linux' or ['darwin', 'win32']
+    arch?: string | string[]; // process.arch values, e.g. 'x64'
+    node?: string; // semver range the running Node.js version must satisfy
+    env?: Record<string, string | boolean>; // true: set and not empty, false: unset or empty, a string: that exact value
+}
+
+const isStringOrStrings = (value: unknown): boolean =>
+    typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+/**
+ * Checks the structure of a condition. Returns the reason it is invalid, or null.
+ */
+export function validateCondition(condition: unknown): string | null {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+        return 'when must be an object';
+    }
+    const { platform, arch, node, env } = condition as Record<string, unknown>;
+    if (platform !== undefined && !isStringOrStrings(platform)) {
+        return 'platform must be a string or an array of strings';
+    }
+    if (arch !== undefined && !isStringOrStrings(arch)) {
+        return 'arch must be a string or an array of strings';
+    }
+    if (node !== undefined && (typeof node !== 'string' || parseRange(node) === null)) {
+        return `node must be a semver range, got ${JSON.stringify(node)}`;
+    }
+    if (env !== undefined) {
+        if (typeof env !== 'object' || env === null || Array.isArray(env)) {
+            return 'env must be an object';
+        }
+        const invalid = Object.entries(env).find(([, value]) => typeof value !== 'string' && typeof value !== 'boolean');
+        if (invalid) {
+            return `env.${invalid[0]} must be a string or a boolean`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks a valid condition against the running process. Returns why the
+ * dependency does not apply, or null when it does.
+ */
+export function checkCondition(condition: DependencyCondition, env: NodeJS.ProcessEnv = process.env): string | null {
+    const matches = (value: string | string[], actual: string): boolean =>
+        Array.isArray(value) ? value.includes(actual) : value === actual;
+
+    if (condition.platform !== undefined && !matches(condition.platform, process.platform)) {
+        return `platform is ${process.platform}, needs ${[condition.platform].flat().join(' or ')}`;
+    }
+    if (condition.arch !== undefined && !matches(condition.arch, process.arch)) {
+        return `arch is ${process.arch}, needs ${[condition.arch].flat().join(' or ')}`;
+    }
+    if (condition.node !== undefined && !satisfies(process.versions.node, condition.node)) {
+        return `Node.js is ${process.versions.node}, needs ${condition.node}`;
+    }
+    for (const [name, expected] of Object.entries(condition.env ?? {})) {
+        const value = env[name];
+        if (expected === true && !value) {
+            return `${name} is not set`;
+        }
+        if (expected === false && value) {
+            return `${name} is set`;
+        }
+        if (typeof expected === 'string' && value !== expected) {
+            return value === undefined ? `${name} is not set, needs ${expected}` : `${name} is ${value}, needs ${expected}`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,50 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+/**
+ * Parses YAML with the `yaml` or `js-yaml` package, whichever is installed.
+ * Neither is a dependency: JSON files need nothing extra.
+ */
+async function parseYaml(text: string, path: string): Promise<unknown> {
+    for (const [module, parse] of [['yaml', 'parse'], ['js-yaml', 'load']]) {
+        let loaded: Record<string, unknown>;
+        try {
+            loaded = await import(module);
+        } catch {
+            continue;
+        }
+        const parser = (loaded[parse] ?? (loaded.default as Record<string, unknown> | undefined)?.[parse]) as
+            ((text: string) => unknown) | undefined;
+        if (parser) {
+            try {
+                return parser(text);
+            } catch (error) {
+                throw new Error(`Could not parse ${path}: ${(error as Error).message}`);
+            }
+        }
+    }
+    throw new Error(`Reading YAML files requires the "yaml" or "js-yaml" package: ${path}`);
+}
+
+/**
+ * Reads a JSON or YAML file (by extension). Errors name the file.
+ */
+export async function readDataFile(path: string): Promise<unknown> {
+    let text: string;
+    try {
+        text = await readFile(path, 'utf8');
+    } catch (error) {
+        throw new Error(`Could not read ${path}: ${(error as Error).message}`);
+    }
+
+    if (YAML_EXTENSIONS.includes(extname(path).toLowerCase())) {
+        return parseYaml(text, path);
+    }
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Could not parse ${path}: ${(error as Error).message}`);
+    }
+}
@@ -0,0 +1,168 @@
+import type { SpecErrorKind } from './spec.js';
+import type { InstallationResult } from './index.js';
+import type { PolicyViolation } from './policy.js';
+
+/**
+ * Why a dependency failed. Package-manager failures use npm's codes (mapped from
+ * pnpm, Yarn and Bun output too); validation failures have their own codes.
+ */
+export type InstallErrorCode =
+    | 'E404'
+    | 'ETARGET'
+    | 'ERESOLVE'
+    | 'EACCES'
+    | 'EINTEGRITY'
+    | 'NETWORK'
+    | 'TIMEOUT'
+    | 'ABORTED'
+    | 'COMMAND_NOT_FOUND'
+    | 'INVALID_NAME'
+    | 'INVALID_VERSION'
+    | 'INVALID_SOURCE'
+    | 'INVALID_OPTIONS'
+    | 'INVALID_FLAGS'
+    | 'INVALID_INTEGRITY'
+    | 'INTEGRITY_MISMATCH'
+    | 'UNRESOLVED_PEERS'
+    | 'INVALID_CONDITION'
+    | 'INVALID_DEPENDS_ON'
+    | 'DEPENDENCY_CYCLE'
+    | 'VULNERABLE'
+    | 'AUDIT_FAILED'
+    | 'UNSUPPORTED_PACKAGE_MANAGER'
+    | 'INVALID_TARGET'
+    | 'INVALID_REGISTRY'
+    | 'LOCKED'
+    | 'POLICY_VIOLATION'
+    | 'INVALID_POLICY'
+    | 'SKIPPED'
+    | 'BATCH_FAILED'
+    | 'ROLLED_BACK'
+    | 'UNKNOWN';
+
+/**
+ * Interface for the typed error of a failed dependency
+ */
+export interface InstallError {
+    code: InstallErrorCode;
+    message: string;
+    exitCode?: number | null; // exit code of the package manager, when it ran
+    hint?: string;
+    violations?: PolicyViolation[]; // the policy rules that rejected the dependency
+}
+
+/**
+ * Interface for what is known about a failed command
+ */
+export interface FailedCommand {
+    message: string;
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    errorCode?: string; // `code` of the error raised while starting the command
+    timedOut: boolean;
+    aborted: boolean;
+}
+
+const HINTS: Partial<Record<InstallErrorCode, string>> = {
+    E404: 'The package does not exist in the registry, or it is private: check the name and the registry or auth configuration.',
+    ETARGET: 'No published version matches the requested range or dist-tag.',
+    ERESOLVE: 'Conflicting peer dependencies: align the versions or pass --legacy-peer-deps.',
+    EACCES: 'Permission denied: check the ownership of the project directory, cache or global prefix.',
+    EINTEGRITY: 'The downloaded tarball does not match its expected integrity: clear the package-manager cache and retry.',
+    NETWORK: 'The registry could not be reached: check connectivity and proxy settings, or configure `retry`.',
+    TIMEOUT: 'The command exceeded its time limit: raise `timeoutMs` or configure `retry`.',
+    COMMAND_NOT_FOUND: 'The package manager could not be started: make sure it is installed and on the PATH.',
+    INVALID_NAME: 'Package names must follow npm naming rules; put version specifiers in `version`.',
+    INVALID_VERSION: 'Use a semver range such as ^1.2.0, or a typed `source` for dist-tags and other sources.',
+    INVALID_SOURCE: 'Check the type and the value of `source`.',
+    INVALID_OPTIONS: 'Options must be flag tokens such as -D or --save-dev, without shell metacharacters.',
+    INVALID_FLAGS: 'Check the names and value types of `flags`; `options` remains available for anything else.',
+    INVALID_INTEGRITY: 'Pin `integrity` with the sha512 SRI from the lockfile or `npm view <name>@<version> dist.integrity`, and `expectedVersion` with an exact version.',
+    UNRESOLVED_PEERS: 'Install the peer dependencies listed in `peers` at a version their range accepts, or relax the range.',
+    INVALID_CONDITION: 'Check the types in `when`: platform and arch take strings or arrays of strings, node a semver range, env strings or booleans.',
+    INVALID_DEPENDS_ON: '`dependsOn` lists the names of other dependencies of the same run.',
+    DEPENDENCY_CYCLE: 'Dependencies listed in the cycle wait for each other: remove one of the `dependsOn` entries.',
+    VULNERABLE: 'The run installed packages with known advisories: check `audit.blocking`, then update them or raise `audit.threshold`.',
+    AUDIT_FAILED: 'The audit could not run or its report could not be read: npm needs a lockfile and access to the registry.',
+    INTEGRITY_MISMATCH: 'The installed package is not the pinned one: check the registry it came from before trusting it.',
+    INVALID_TARGET: 'Check `cwd`, or pass `managed: true` to have the directory created.',
+    LOCKED: 'Another run is installing into the same directory: retry later, raise `lock.waitTimeoutMs`, or check for a crashed process.',
+    INVALID_REGISTRY: 'Registry URLs must be http or https without credentials; put tokens in `registry.auth`.',
+    POLICY_VIOLATION: 'The install policy rejects this dependency: see `violations` for the rules involved.',
+    INVALID_POLICY: 'Check the structure of the policy and that no flag is both mandatory and forbidden.',
+    BATCH_FAILED: 'Another package of the same batch made the command fail: fix that one, or use the sequential strategy.'
+};
+
+// Checked in order: the first matching pattern wins
+const OUTPUT_PATTERNS: [InstallErrorCode, RegExp][] = [
+    ['EINTEGRITY', /\bEINTEGRITY\b|ERR_PNPM_TARBALL_INTEGRITY|integrity checksum failed|\bYN0018\b/i],
+    ['ETARGET', /\bETARGET\b|ERR_PNPM_NO_MATCHING_VERSION|No matching version found|No version matching|\bYN0082\b/i],
+    ['E404', /\bE404\b|ERR_PNPM_FETCH_404|404 Not Found|is not in (this|the npm) registry|\bYN0035\b|error: package "[^"]*" not found/i],
+    ['ERESOLVE', /\bERESOLVE\b|ERR_PNPM_PEER_DEP_ISSUES|unable to resolve dependency tree/i],
+    ['EACCES', /\bEACCES\b|\bEPERM\b|permission denied/i],
+    ['NETWORK', /\b(ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|ENETUNREACH|ERR_SOCKET_TIMEOUT)\b|network (request|error)/i]
+];
+
+const SPEC_ERROR_CODES: Record<SpecErrorKind, InstallErrorCode> = {
+    name: 'INVALID_NAME',
+    version: 'INVALID_VERSION',
+    source: 'INVALID_SOURCE'
+};
+
+/**
+ * Builds a typed error. The hint defaults to the one of the code.
+ */
+export function createInstallError(
+    code: InstallErrorCode,
+    message: string,
+    extra: Partial<Pick<InstallError, 'exitCode' | 'hint' | 'violations'>> = {}
+): InstallError {
+    const hint = extra.hint ?? HINTS[code];
+    return {
+        code,
+        message,
+        ...(extra.exitCode !== undefined && { exitCode: extra.exitCode }),
+        ...(hint && { hint }),
+        ...(extra.violations && { violations: extra.violations })
+    };
+}
+
+/**
+ * Maps the kind of an InvalidSpecError to its error code.
+ */
+export function specErrorCode(kind: SpecErrorKind): InstallErrorCode {
+    return SPEC_ERROR_CODES[kind];
+}
+
+/**
+ * Classifies a failed command from how it ended and what it printed.
+ */
+export function classifyFailure(failure: FailedCommand): InstallError {
+    const { message, exitCode } = failure;
+    if (failure.aborted) return createInstallError('ABORTED', message, { exitCode });
+    if (failure.timedOut) return createInstallError('TIMEOUT', message, { exitCode });
+    if (failure.errorCode === 'ENOENT' && exitCode === null) {
+        return createInstallError('COMMAND_NOT_FOUND', message, { exitCode });
+    }
+
+    const output = `${failure.stderr}\n${failure.stdout}\n${message}`;
+    const match = OUTPUT_PATTERNS.find(([, pattern]) => pattern.test(output));
+    return createInstallError(match ? match[0] : 'UNKNOWN', message, { exitCode });
+}
+
+/**
+ * Error thrown by installAndImport when the module could not be installed or
+ * resolved. `result` is the installation, and `error` the typed error of the
+ * dependency when the install itself failed.
+ */
+export class ModuleInstallError extends Error {
+    constructor(
+        message: string,
+        public readonly result?: InstallationResult,
+        public readonly error?: InstallError
+    ) {
+        super(message);
+        this.name = 'ModuleInstallError';
+    }
+}
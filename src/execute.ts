@@ -0,0 +1,186 @@
+import { formatInvocation, type CommandRunner, type CommandInvocation } from './runner.js';
+import type { RunLog } from './logging.js';
+import { classifyFailure, createInstallError, type InstallError } from './errors.js';
+
+/**
+ * Interface for the retry policy of failed commands
+ */
+export interface RetryOptions {
+    attempts?: number; // total attempts including the first one, defaults to 3
+    delayMs?: number; // delay before the first retry, defaults to 1000
+    factor?: number; // backoff multiplier applied after each retry, defaults to 2
+    maxDelayMs?: number; // upper bound for a single delay, defaults to 30000
+    retryOn?: string[]; // error codes worth retrying, defaults to DEFAULT_RETRY_CODES
+}
+
+/**
+ * Transient network error codes retried by default. A command stopped by its
+ * timeout counts as ETIMEDOUT.
+ */
+export const DEFAULT_RETRY_CODES = ['ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN'];
+
+/**
+ * Interface for command execution result
+ */
+export interface CommandResult {
+    success: boolean;
+    message: string;
+    logs: string;
+    attempts: number;
+    timedOut: boolean;
+    aborted: boolean;
+    exitCode: number | null;
+    output: string; // stderr and message of the last attempt, redacted
+    error?: InstallError; // classified failure, set when success is false
+}
+
+/**
+ * Interface for how a command is executed
+ */
+export interface ExecutionContext {
+    runner: CommandRunner;
+    log: RunLog;
+    retry?: RetryOptions;
+    signal?: AbortSignal;
+    env?: Record<string, string>; // added to the environment of every command, never logged
+}
+
+/**
+ * Runs a command invocation once through the given runner and returns a promise with the success status and message.
+ */
+async function executeOnce(
+    invocation: CommandInvocation,
+    runner: CommandRunner,
+    log: RunLog
+): Promise<CommandResult> {
+    const fields = { command: invocation.command, args: invocation.args, cwd: invocation.cwd };
+    log.info(`command: ${formatInvocation(invocation)}`, fields);
+
+    let error: Error | undefined;
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let aborted = false;
+    let exitCode: number | null = null;
+    try {
+        const output = await runner.run(invocation);
+        stdout = output.stdout;
+        stderr = output.stderr;
+        exitCode = output.exitCode;
+        timedOut = Boolean(output.timedOut);
+        aborted = Boolean(output.aborted) || Boolean(invocation.signal?.aborted);
+        error = output.error ?? (output.exitCode === 0
+            ? undefined
+            : new Error(`Command failed: ${formatInvocation(invocation)} (exit code ${output.exitCode})`));
+    } catch (thrown) {
+        error = thrown instanceof Error ? thrown : new Error(String(thrown));
+        aborted = Boolean(invocation.signal?.aborted);
+    }
+
+    const success = !error;
+    const message = log.redact(error ? error.message : (stdout || stderr));
+
+    log.debug(`stdout: ${stdout}`, { ...fields, stdout });
+    log.debug(`stderr: ${stderr}`, { ...fields, stderr });
+    if (error) {
+        log.error(`error: ${error.message}`, { ...fields, error: error.message, timedOut, aborted });
+    } else {
+        log.debug('error: none', fields);
+    }
+    log.info(`success: ${success}, message: ${message}`, { ...fields, success });
+
+    return {
+        success,
+        message,
+        logs: log.lines.join('\n'),
+        attempts: 1,
+        timedOut,
+        aborted,
+        exitCode,
+        ...(error && {
+            error: classifyFailure({
+                message,
+                stdout,
+                stderr,
+                exitCode,
+                errorCode: (error as NodeJS.ErrnoException).code,
+                timedOut,
+                aborted
+            })
+        }),
+        output: log.redact(`${stderr}\n${message}`)
+    };
+}
+
+/**
+ * Resolves after `ms`, or as soon as the signal aborts.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve();
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function isRetryable(result: CommandResult, retryOn: string[]): boolean {
+    if (result.aborted) return false;
+    if (result.timedOut) return retryOn.includes('ETIMEDOUT');
+    return retryOn.some(code => result.output.includes(code));
+}
+
+/**
+ * Runs a command invocation, retrying with exponential backoff when it fails with
+ * a retryable error code. `timeoutMs` applies to each attempt; `deadline` (epoch
+ * ms) bounds all attempts together.
+ */
+export async function executeCommand(
+    invocation: CommandInvocation,
+    context: ExecutionContext,
+    deadline?: number
+): Promise<CommandResult> {
+    const { runner, log, retry, signal, env } = context;
+    const attempts = retry ? Math.max(1, retry.attempts ?? 3) : 1;
+    const retryOn = retry?.retryOn ?? DEFAULT_RETRY_CODES;
+    let delayMs = retry?.delayMs ?? 1000;
+
+    for (let attempt = 1; ; attempt++) {
+        const remaining = deadline === undefined ? undefined : deadline - Date.now();
+        const timeoutMs = remaining === undefined
+            ? invocation.timeoutMs
+            : Math.max(0, Math.min(remaining, invocation.timeoutMs ?? Infinity));
+
+        const result = await executeOnce({
+            ...invocation,
+            ...((env || invocation.env) && { env: { ...env, ...invocation.env } }),
+            signal,
+            timeoutMs
+        }, runner, log);
+        result.attempts = attempt;
+
+        const outOfTime = deadline !== undefined && Date.now() + delayMs >= deadline;
+        if (result.success || attempt >= attempts || outOfTime || !isRetryable(result, retryOn)) {
+            return result;
+        }
+
+        log.warn(`retrying in ${delayMs}ms (attempt ${attempt + 1} of ${attempts})`, {
+            command: invocation.command,
+            args: invocation.args,
+            attempt: attempt + 1,
+            delayMs
+        });
+        await delay(delayMs, signal);
+        if (signal?.aborted) {
+            const error = createInstallError('ABORTED', result.message, { exitCode: result.exitCode });
+            return { ...result, aborted: true, error };
+        }
+        delayMs = Math.min(delayMs * (retry?.factor ?? 2), retry?.maxDelayMs ?? 30000);
+    }
+}
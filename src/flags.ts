@@ -0,0 +1,177 @@
+import { parseRange } from './semver.js';
+
+/**
+ * Dependency types npm can omit or include
+ */
+export type DependencyType = 'dev' | 'optional' | 'peer';
+
+/**
+ * npm log levels
+ */
+export type NpmLogLevel = 'silent' | 'error' | 'warn' | 'notice' | 'http' | 'info' | 'verbose' | 'silly';
+
+/**
+ * Interface for typed npm install flags. A boolean flag set to false is written
+ * as its `--no-` form; unset flags are left out.
+ */
+export interface InstallFlags {
+    save?: boolean; // false: --no-save
+    saveDev?: boolean;
+    saveOptional?: boolean;
+    savePeer?: boolean;
+    saveProd?: boolean;
+    saveExact?: boolean;
+    saveBundle?: boolean;
+    global?: boolean;
+    ignoreScripts?: boolean;
+    legacyPeerDeps?: boolean;
+    strictPeerDeps?: boolean;
+    force?: boolean;
+    preferOffline?: boolean;
+    preferOnline?: boolean;
+    offline?: boolean;
+    audit?: boolean;
+    fund?: boolean;
+    packageLock?: boolean;
+    dryRun?: boolean;
+    registry?: string | URL;
+    tag?: string; // dist-tag used for dependencies without a version
+    omit?: DependencyType[];
+    include?: DependencyType[];
+    installStrategy?: 'hoisted' | 'nested' | 'shallow' | 'linked';
+    loglevel?: NpmLogLevel;
+    fetchRetries?: number;
+    fetchTimeout?: number; // milliseconds
+}
+
+/**
+ * Error thrown when a typed flag has a value of the wrong type or shape
+ */
+export class InvalidFlagError extends Error {
+    constructor(public readonly flag: string, message: string) {
+        super(message);
+        this.name = 'InvalidFlagError';
+    }
+}
+
+/**
+ * How a flag is validated and written
+ */
+type FlagDefinition =
+    | { type: 'boolean' }
+    | { type: 'url' }
+    | { type: 'tag' }
+    | { type: 'integer' }
+    | { type: 'enum'; values: readonly string[] }
+    | { type: 'list'; values: readonly string[] };
+
+const DEPENDENCY_TYPES: readonly DependencyType[] = ['dev', 'optional', 'peer'];
+const TAG_REGEX = /^[A-Za-z0-9][\w.-]*$/;
+
+const FLAG_DEFINITIONS: Record<keyof InstallFlags, FlagDefinition> = {
+    save: { type: 'boolean' },
+    saveDev: { type: 'boolean' },
+    saveOptional: { type: 'boolean' },
+    savePeer: { type: 'boolean' },
+    saveProd: { type: 'boolean' },
+    saveExact: { type: 'boolean' },
+    saveBundle: { type: 'boolean' },
+    global: { type: 'boolean' },
+    ignoreScripts: { type: 'boolean' },
+    legacyPeerDeps: { type: 'boolean' },
+    strictPeerDeps: { type: 'boolean' },
+    force: { type: 'boolean' },
+    preferOffline: { type: 'boolean' },
+    preferOnline: { type: 'boolean' },
+    offline: { type: 'boolean' },
+    audit: { type: 'boolean' },
+    fund: { type: 'boolean' },
+    packageLock: { type: 'boolean' },
+    dryRun: { type: 'boolean' },
+    registry: { type: 'url' },
+    tag: { type: 'tag' },
+    omit: { type: 'list', values: DEPENDENCY_TYPES },
+    include: { type: 'list', values: DEPENDENCY_TYPES },
+    installStrategy: { type: 'enum', values: ['hoisted', 'nested', 'shallow', 'linked'] },
+    loglevel: { type: 'enum', values: ['silent', 'error', 'warn', 'notice', 'http', 'info', 'verbose', 'silly'] },
+    fetchRetries: { type: 'integer' },
+    fetchTimeout: { type: 'integer' }
+};
+
+/**
+ * Converts a flag key to its npm name: saveDev -> --save-dev.
+ */
+function toFlagName(key: string): string {
+    return `--${key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * Validates one flag and returns its argv tokens.
+ */
+function serializeFlag(key: string, definition: FlagDefinition, value: unknown): string[] {
+    const name = toFlagName(key);
+    const fail = (expected: string): never => {
+        throw new InvalidFlagError(key, `${key} must be ${expected}, got ${JSON.stringify(String(value))}`);
+    };
+
+    switch (definition.type) {
+        case 'boolean':
+            if (typeof value !== 'boolean') fail('a boolean');
+            return [value ? name : `--no-${name.slice(2)}`];
+        case 'url': {
+            let url: URL;
+            try {
+                url = new URL(String(value));
+            } catch {
+                return fail('an http or https URL');
+            }
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') fail('an http or https URL');
+            if (url.username || url.password) {
+                throw new InvalidFlagError(key, `${key} must not contain credentials`);
+            }
+            return [`${name}=${url.href}`];
+        }
+        case 'tag':
+            // npm refuses tags that would read as a version range
+            if (typeof value !== 'string' || !TAG_REGEX.test(value) || parseRange(value) !== null) {
+                fail('a dist-tag name that is not a version range');
+            }
+            return [`${name}=${value}`];
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) fail('a non-negative integer');
+            return [`${name}=${value}`];
+        case 'enum':
+            if (typeof value !== 'string' || !definition.values.includes(value)) fail(`one of ${definition.values.join(', ')}`);
+            return [`${name}=${value}`];
+        case 'list':
+            if (!Array.isArray(value) || !value.every(item => definition.values.includes(item))) {
+                fail(`an array of ${definition.values.join(', ')}`);
+            }
+            return (value as string[]).map(item => `${name}=${item}`);
+    }
+}
+
+/**
+ * Validates typed flags and serializes them into npm-style argv tokens, in a
+ * stable order. Each value stays inside its own token (--registry=<url>).
+ * Throws InvalidFlagError for unknown flags and invalid values.
+ */
+export function serializeFlags(flags: InstallFlags): string[] {
+    if (typeof flags !== 'object' || flags === null || Array.isArray(flags)) {
+        throw new InvalidFlagError('flags', 'flags must be an object');
+    }
+    for (const key of Object.keys(flags)) {
+        if (!Object.prototype.hasOwnProperty.call(FLAG_DEFINITIONS, key)) {
+            throw new InvalidFlagError(key, `Unknown flag: ${key}`);
+        }
+    }
+
+    const tokens: string[] = [];
+    for (const [key, definition] of Object.entries(FLAG_DEFINITIONS)) {
+        const value = flags[key as keyof InstallFlags];
+        if (value !== undefined) {
+            tokens.push(...serializeFlag(key, definition, value));
+        }
+    }
+    return tokens;
+}
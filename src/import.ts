@@ -0,0 +1,86 @@
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { parsePackageSpec } from './spec.js';
+import { readInstalledPackage, resolvePackageEntry } from './resolve.js';
+import { ModuleInstallError } from './errors.js';
+import { resolveTarget } from './target.js';
+import { ensureDependencies, type Dependency, type InstallOptions } from './index.js';
+
+/**
+ * Interface for installAndImport options: the installer options for the single
+ * dependency, plus the subpath to load
+ */
+export interface ImportOptions extends Omit<InstallOptions, 'dependencies'> {
+    subpath?: string; // module inside the package, e.g. 'fp' for 'lodash/fp'; defaults to the main entry
+}
+
+// The CJS build compiles import() to require(), which cannot load ES modules:
+// going through Function keeps a native import() in both builds
+const functionImport = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+async function nativeImport(specifier: string): Promise<unknown> {
+    try {
+        return await functionImport(specifier);
+    } catch (error) {
+        // vm sandboxes, such as test runners, refuse imports from Function-created code
+        if ((error as NodeJS.ErrnoException).code !== 'ERR_VM_DYNAMIC_IMPORT_CALLBACK_MISSING') throw error;
+        return import(specifier);
+    }
+}
+
+// Calls in progress by target directory and package name
+const pending = new Map<string, { key: string; promise: Promise<unknown> }>();
+
+async function loadModule(dep: Dependency, options: ImportOptions, cwd: string): Promise<unknown> {
+    const installation = await ensureDependencies({ ...options, dependencies: [dep] });
+    const [detail] = installation.details;
+    if (!detail.success) {
+        throw new ModuleInstallError(`Could not install ${dep.name}: ${detail.message}`, installation, detail.error);
+    }
+
+    const installed = await readInstalledPackage(dep.name, cwd);
+    const entry = installed && await resolvePackageEntry(installed, options.subpath);
+    if (!entry) {
+        const target = options.subpath ? `${dep.name}/${options.subpath}` : dep.name;
+        throw new ModuleInstallError(`Could not resolve ${target} in ${cwd}`, installation);
+    }
+
+    if (detail.status !== 'already-satisfied') {
+        // A previous version may be cached: CommonJS by file path, ES modules by URL
+        delete createRequire(entry).cache[entry];
+    }
+    return nativeImport(`${pathToFileURL(entry).href}?version=${installed!.version}`);
+}
+
+/**
+ * Installs a package unless a satisfying version is already there, then loads it
+ * from the install target with a native import(), whether it is an ES module or
+ * CommonJS, and resolves with its module namespace. `spec` is a dependency or a
+ * spec string such as 'lodash@^4.17.0'. Identical concurrent calls share one
+ * install; calls for other versions of the same package wait for it. Rejects with
+ * ModuleInstallError when the package cannot be installed or resolved.
+ */
+export async function installAndImport<T = unknown>(spec: string | Dependency, options: ImportOptions = {}): Promise<T> {
+    const dep: Dependency = typeof spec === 'string' ? parsePackageSpec(spec) : spec;
+    const cwd = resolveTarget(options.cwd);
+    const packageKey = `${cwd}\0${dep.name}`;
+    const key = JSON.stringify([dep.version, dep.source, dep.options, dep.override, dep.integrity, dep.expectedVersion, options.subpath]);
+
+    const current = pending.get(packageKey);
+    if (current?.key === key) {
+        return current.promise as Promise<T>;
+    }
+
+    const promise = (current?.promise ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => loadModule(dep, options, cwd));
+    const entry = { key, promise };
+    pending.set(packageKey, entry);
+    try {
+        return await promise as T;
+    } finally {
+        if (pending.get(packageKey) === entry) {
+            pending.delete(packageKey);
+        }
+    }
+}
@@ -1,31 +1,181 @@
 // Requires Node.js >= 18.0.0
-import { exec } from 'child_process';
+import { basename, join } from 'path';
+import { spawnRunner, formatInvocation, type CommandRunner, type CommandInvocation } from './runner.js';
+import { executeCommand, type ExecutionContext, type RetryOptions } from './execute.js';
+import { createRunLog, type Logger, type RunLog } from './logging.js';
+import { resolvePackageManager, type PackageManagerAdapter, type PackageManagerOption } from './package-managers.js';
+import { buildInstallSpec, validatePackageName, InvalidSpecError, type DependencySource } from './spec.js';
+import { serializeFlags, type InstallFlags } from './flags.js';
+import { createInstallError, specErrorCode, type InstallError } from './errors.js';
+import { readInstalledPackage } from './resolve.js';
+import { satisfies } from './semver.js';
+import { readDataFile } from './data-file.js';
+import { takeSnapshot, restoreSnapshot, type Snapshot } from './snapshot.js';
+import { resolveTarget, isDirectory, initPluginDirectory } from './target.js';
+import {
+    validateRegistryConfig,
+    registrySecrets,
+    createRegistrySession,
+    type RegistryConfig,
+    type RegistrySession
+} from './registry.js';
+import { acquireLock, type InstallLock, type LockAttempt, type LockOptions } from './lock.js';
+import { validateCondition, checkCondition, type DependencyCondition } from './conditions.js';
+import { validateDependsOn, orderDependencies } from './order.js';
+import {
+    parseAuditReport,
+    countBySeverity,
+    meetsThreshold,
+    isAuditThreshold,
+    SEVERITIES,
+    type AuditAdvisory,
+    type AuditSeverity,
+    type AuditThreshold
+} from './audit.js';
+import { checkPeers, type PeerDependencyResult } from './peers.js';
+import { validatePin, verifyPin, type IntegrityPin } from './integrity.js';
+import { readInstalledTree, diffInstalledTrees, type InstalledTree, type PackageChange } from './changes.js';
+import { loadPolicy, validatePolicy, checkPolicy, applyMandatoryFlags, type InstallPolicy } from './policy.js';
+
+export { spawnRunner, formatInvocation };
+export type { CommandRunner, CommandInvocation, CommandOutput } from './runner.js';
+export type { Logger, LogLevel, LogFields } from './logging.js';
+export { DEFAULT_RETRY_CODES } from './execute.js';
+export type { RetryOptions } from './execute.js';
+export { detectPackageManager, getPackageManager } from './package-managers.js';
+export type { PackageManagerName, PackageManagerOption, PackageManagerAdapter } from './package-managers.js';
+export { parsePackageSpec, validatePackageName, InvalidSpecError } from './spec.js';
+export type { DependencySource, PackageSpec, SpecErrorKind } from './spec.js';
+export { ModuleInstallError } from './errors.js';
+export type { InstallError, InstallErrorCode } from './errors.js';
+export { serializeFlags, InvalidFlagError } from './flags.js';
+export type { InstallFlags, DependencyType, NpmLogLevel } from './flags.js';
+export { readInstalledPackage, resolvePackageEntry, resolvePackagePath, resolveModulePath } from './resolve.js';
+export type { InstalledPackage } from './resolve.js';
+export { satisfies } from './semver.js';
+export { initPluginDirectory } from './target.js';
+export { loadPolicy, validatePolicy } from './policy.js';
+export type { RegistryConfig, RegistryCredentials } from './registry.js';
+export type { PackageChange } from './changes.js';
+export type { LockOptions, LockConflict } from './lock.js';
+export type { PeerDependencyResult } from './peers.js';
+export type { DependencyCondition } from './conditions.js';
+export { parseAuditReport } from './audit.js';
+export type { AuditAdvisory, AuditSeverity, AuditThreshold } from './audit.js';
+export type { InstallPolicy, PolicyRule, PolicySource, PolicyViolation } from './policy.js';
+export { installAndImport } from './import.js';
+export type { ImportOptions } from './import.js';
+export { loadManifest, resolveProfile, validateManifest, ManifestError } from './manifest.js';
+export type { Manifest, ManifestSettings } from './manifest.js';
 
 /**
  * Interface for dependency configuration
  */
 export interface Dependency {
     name: string;
+    version?: string; // semver range or exact version, e.g. '^4.17.0'
+    source?: DependencySource; // dist-tag, git, tarball, file or npm alias (exclusive with version)
     options?: string[]; // changed to array of option tokens
+    flags?: InstallFlags; // typed npm flags, merged over the global ones
     override?: boolean;
+    timeoutMs?: number; // limit for each install attempt of this dependency
+    integrity?: string; // sha512 SRI the installed tarball must have, checked after install
+    expectedVersion?: string; // exact version the install must resolve to, checked after install
+    dependsOn?: string[]; // names of dependencies of the same run to install first
+    optional?: boolean; // its failure does not fail the run
+    when?: DependencyCondition; // only part of the run when the condition holds
 }
 
+/**
+ * How dependencies are turned into commands: one command per dependency, or as
+ * few commands as possible by batching dependencies with identical options
+ */
+export type InstallStrategy = 'sequential' | 'batched';
+
+/**
+ * What a run does after a dependency fails: carry on with the others, skip
+ * everything left, or skip only what depends on it
+ */
+export type FailureStrategy = 'continue' | 'abort' | 'skip-dependents';
+
 /**
  * Interface for installation options
  */
 export interface InstallOptions {
     globalOptions?: string[];
+    flags?: InstallFlags; // typed npm flags for every dependency, e.g. { saveDev: true, omit: ['dev'] }
     dependencies: Dependency[];
-    verbose?: boolean;
+    cwd?: string; // directory with the package.json and node_modules to install into, defaults to process.cwd()
+    managed?: boolean; // create and maintain `cwd` as a self-contained plugin directory
+    verbose?: boolean; // defaults to true, or to false when a logger is given
+    logger?: Logger; // receives every log entry with structured fields
+    onEvent?: (event: InstallEvent) => void; // live progress events
+    runner?: CommandRunner; // defaults to spawnRunner (no shell)
+    packageManager?: PackageManagerOption; // defaults to 'npm'
+    strategy?: InstallStrategy; // defaults to 'sequential'
+    onFailure?: FailureStrategy; // defaults to 'continue'
+    atomic?: boolean | AtomicOptions; // restore package.json and lockfiles if any install fails
+    timeoutMs?: number; // limit for the whole run
+    signal?: AbortSignal; // aborting kills the running command and skips the rest
+    retry?: RetryOptions; // retry transient failures with exponential backoff
+    policy?: InstallPolicy | string; // rules checked before any command is built, or the path of a JSON/YAML file with them
+    registry?: RegistryConfig; // registries and credentials for this run only
+    onIntegrityMismatch?: 'fail' | 'uninstall'; // 'uninstall' also removes a package that does not match its pin
+    lock?: boolean | LockOptions; // lock the install directory against concurrent runs from other processes
+    installPeers?: boolean | 'report'; // check the peers of installed packages: true installs missing ones, 'report' lists them
+    audit?: boolean | AuditOptions; // audit the installed packages after installing
 }
 
+/**
+ * Interface for cleanInstall options: those of installDependencies, without dependencies
+ */
+export type CleanInstallOptions = Omit<InstallOptions, 'dependencies' | 'strategy'>;
+
+/**
+ * Interface for atomic installation options
+ */
+export interface AtomicOptions {
+    reconcile?: boolean; // also sync node_modules with the restored files, defaults to false
+}
+
+/**
+ * Interface for the audit run after installing
+ */
+export interface AuditOptions {
+    threshold?: AuditThreshold; // advisories the run brings in at this severity or above fail it, defaults to 'high'
+    rollback?: boolean; // also undo the install of what brought them in
+}
+
+/**
+ * Outcome of a single dependency
+ */
+export type InstallStatus =
+    | 'installed'
+    | 'already-satisfied'
+    | 'upgraded'
+    | 'updated'
+    | 'uninstalled'
+    | 'failed'
+    | 'skipped'
+    | 'not-applicable'
+    | 'rolled-back';
+
 /**
  * Interface for individual installation result
  */
 export interface InstallResult {
     name: string;
     success: boolean;
+    status: InstallStatus;
     message: string;
+    version?: string; // installed version, when known
+    previousVersion?: string; // version replaced by an upgrade
+    attempts?: number; // commands run for this dependency, including retries
+    timedOut?: boolean;
+    aborted?: boolean;
+    optional?: boolean; // set for optional dependencies, whose failure does not fail the run
+    error?: InstallError; // why the dependency failed, set whenever success is false
+    peers?: PeerDependencyResult[]; // peer dependencies of the installed package, with installPeers
 }
 
 /**
@@ -33,47 +183,78 @@ export interface InstallResult {
  */
 export interface InstallationResult {
     success: boolean;
+    packageManager?: string;
     details: InstallResult[];
+    rollback?: RollbackResult; // only set in atomic mode
+    changes?: PackageChange[]; // packages added, updated or removed by the run, when commands ran
+    audit?: AuditResult; // with the audit option, when a command succeeded
     logs: string;
     logsArray: string[];
 }
 
 /**
- * Interface for command execution result
+ * Progress events emitted while installing. Output chunks are streamed as the
+ * package manager writes them; in batched mode they belong to several dependencies.
  */
-interface CommandResult {
+export type InstallEvent =
+    | { type: 'run-start'; dependencies: string[] }
+    | { type: 'dependency-start'; name: string; command: CommandInvocation }
+    | { type: 'stdout'; dependencies: string[]; chunk: string }
+    | { type: 'stderr'; dependencies: string[]; chunk: string }
+    | { type: 'dependency-end'; name: string; result: InstallResult }
+    | { type: 'run-end'; result: InstallationResult };
+
+/**
+ * Interface for the rollback of an atomic installation
+ */
+export interface RollbackResult {
+    performed: boolean;
     success: boolean;
+    reconciled?: boolean; // whether node_modules was synced after restoring, when requested
     message: string;
-    logs: string;
 }
 
-// Regex for allowed package names: only @, letters, numbers, -, _, ., /
-const PACKAGE_NAME_REGEX = /^[@a-zA-Z0-9._/-]+$/;
-
-// Regex for allowed option tokens
-const SHORT_FLAG_REGEX = /^-[A-Za-z]+$/;
-const LONG_FLAG_REGEX = /^--[a-z]+(?:-[a-z]+)*$/;
-
-// Disallowed shell metacharacters
-const DISALLOWED_CHARS_REGEX = /[;&|$`<>\\*?\(\)\{\}\[\]~]/;
+/**
+ * Interface for the audit of the packages installed by a run
+ */
+export interface AuditResult {
+    success: boolean; // whether the audit ran and its report could be read
+    passed: boolean; // false when the audit failed or found blocking advisories
+    threshold: AuditThreshold;
+    advisories: AuditAdvisory[]; // every advisory of the installed packages
+    blocking: AuditAdvisory[]; // those at or above the threshold, on packages the run added or updated
+    counts: Record<AuditSeverity, number>;
+    message: string;
+    error?: InstallError; // AUDIT_FAILED or VULNERABLE, set whenever passed is false
+}
 
 /**
- * Simple logger: appends message to logs array and optionally prints to console.
+ * Interface for a command of an installation plan
  */
-function logMessage(message: string, verbose: boolean, logs: string[]): void {
-    logs.push(message);
-    if (verbose) {
-        console.log(message);
-    }
+export interface PlannedCommand extends CommandInvocation {
+    cwd: string;
+    dependencies: string[]; // names of the dependencies installed by this command
 }
 
 /**
- * Validates a dependency name to prevent command injection.
+ * Interface for the result of planInstallation: what installDependencies would run
  */
-function isValidDependencyName(name: string): boolean {
-    return PACKAGE_NAME_REGEX.test(name);
+export interface InstallationPlan {
+    valid: boolean; // false if any dependency failed validation
+    packageManager?: string;
+    cwd: string;
+    commands: PlannedCommand[];
+    failures: { name: string; message: string; code: InstallError['code'] }[];
+    notApplicable?: { name: string; reason: string }[]; // dependencies whose `when` does not hold, when any
 }
 
+// Regex for allowed option tokens
+const SHORT_FLAG_REGEX = /^-[A-Za-z]+$/;
+const LONG_FLAG_REGEX = /^--[a-z]+(?:-[a-z]+)*$/;
+
+// Disallowed shell metacharacters
+const DISALLOWED_CHARS_REGEX = /[;&|$`<>\\*?\(\)\{\}\[\]~]/;
+
 /**
  * Validates option tokens strictly by regex.
  * Returns array of valid tokens or null if any token is invalid.
@@ -107,85 +288,1267 @@ function parseAndValidateOptions(options?: string | string[]): string[] | null {
 }
 
 /**
- * Executes a shell command and returns a promise with the success status and message.
+ * Interface for a dependency that passed validation, with its merged options
  */
-function executeCommand(command: string, verbose: boolean, logs: string[]): Promise<CommandResult> {
-    return new Promise((resolve) => {
-        exec(command, (error, stdout, stderr) => {
-            logMessage(`command: ${command}`, verbose, logs);
+interface PreparedDependency {
+    index: number; // position in the dependencies array
+    name: string;
+    spec: string;
+    options: string[];
+    timeoutMs?: number;
+    pin?: IntegrityPin; // checked once installed
+}
 
-            const success = !error;
-            const message = error ? error.message : (stdout || stderr);
+/**
+ * What a run does: install, uninstall or update its dependencies, or install
+ * the project from its lockfile
+ */
+type Operation = 'install' | 'uninstall' | 'update' | 'cleanInstall';
+
+// Adapter methods building the argv of the operations not every adapter supports
+const OPERATION_ARGS = { uninstall: 'uninstallArgs', update: 'updateArgs', cleanInstall: 'cleanInstallArgs' } as const;
+
+// Status of a dependency the operation succeeded for
+const OPERATION_STATUS: Record<Operation, InstallStatus> = {
+    install: 'installed',
+    uninstall: 'uninstalled',
+    update: 'updated',
+    cleanInstall: 'installed'
+};
+
+/**
+ * Validates a dependency an operation addresses by name only: its range and
+ * source come from package.json. Returns the name as the command argument.
+ */
+function buildNameSpec(dep: Dependency, operation: 'uninstall' | 'update'): string {
+    const reason = validatePackageName(dep.name);
+    if (reason) {
+        throw new InvalidSpecError('name', `Invalid dependency name: ${dep.name} (${reason})`);
+    }
+    if (dep.version !== undefined || dep.source !== undefined) {
+        const kind = dep.version !== undefined ? 'version' : 'source';
+        throw new InvalidSpecError(kind, `Invalid ${kind} for dependency ${dep.name}: ${operation} uses the range in package.json, \`${kind}\` only applies to installs`);
+    }
+    return dep.name;
+}
+
+/**
+ * Validates a dependency, merges its options with the global ones and enforces
+ * the policy. Returns the prepared dependency, or the validation error.
+ */
+function prepareDependency(
+    dep: Dependency,
+    index: number,
+    globalOptions: string[],
+    globalFlags: InstallFlags | undefined,
+    policy?: InstallPolicy,
+    operation: Operation = 'install'
+): PreparedDependency | { error: InstallError } {
+    const { name, override = false } = dep;
+    // dep.options is now string[] | undefined
+    // pass directly to parser which accepts array or string
+    const depOptionsVal = dep.options;
+
+    // Validate name, version and source, and build the command argument; a clean install has none
+    let spec = '';
+    try {
+        if (operation === 'install') {
+            spec = buildInstallSpec(dep);
+        } else if (operation !== 'cleanInstall') {
+            spec = buildNameSpec(dep, operation);
+        }
+    } catch (error) {
+        const code = error instanceof InvalidSpecError ? specErrorCode(error.kind) : 'UNKNOWN';
+        return { error: createInstallError(code, (error as Error).message) };
+    }
+
+    // Validate the pin now, it is only checked once the package is installed
+    const pinError = validatePin(dep, dep.version);
+    if (pinError) {
+        return { error: createInstallError('INVALID_INTEGRITY', `Invalid pin for dependency ${name}: ${pinError}`) };
+    }
+    const pinned = (operation === 'install' || operation === 'update') &&
+        (dep.integrity !== undefined || dep.expectedVersion !== undefined);
+
+    // Validate global options
+    // IMPORTANT: don't coerce null -> [] here; if validation fails we must get `null`
+    // so the later error branch can detect invalid global options.
+    const validGlobalOptions = globalOptions ? validateOptionTokens(globalOptions) : [];
+
+    // Validate dependency options
+    const validDepOptions = parseAndValidateOptions(depOptionsVal);
+
+    if (
+        (override && validDepOptions === null) ||
+        (!override && (validGlobalOptions === null || validDepOptions === null))
+    ) {
+        return { error: createInstallError('INVALID_OPTIONS', `Invalid options for dependency: ${name}`) };
+    }
+
+    // Build final options
+    let options = override
+        ? validDepOptions!
+        : [...(validGlobalOptions ?? []), ...validDepOptions!];
+
+    // Append typed flags; the dependency's take precedence over the global ones
+    try {
+        options = [...options, ...serializeFlags(override ? dep.flags ?? {} : { ...globalFlags, ...dep.flags })];
+    } catch (error) {
+        return { error: createInstallError('INVALID_FLAGS', `Invalid flags for dependency ${name}: ${(error as Error).message}`) };
+    }
+
+    // Enforce the policy on the final options. Names and sources only matter for what gets fetched.
+    if (policy) {
+        const fetches = operation === 'install' || operation === 'update';
+        const violations = checkPolicy(dep, options, policy).filter(violation => fetches || violation.rule === 'forbiddenFlags');
+        if (violations.length > 0) {
+            const message = `Policy violation for dependency ${name}: ${violations.map(violation => violation.message).join('; ')}`;
+            return { error: createInstallError('POLICY_VIOLATION', message, { violations }) };
+        }
+        options = applyMandatoryFlags(options, policy);
+    }
+
+    return {
+        index,
+        name,
+        spec,
+        options,
+        timeoutMs: dep.timeoutMs,
+        ...(pinned && { pin: { integrity: dep.integrity, expectedVersion: dep.expectedVersion } })
+    };
+}
+
+/**
+ * Groups prepared dependencies into the invocations to run: one per dependency,
+ * or with the 'batched' strategy one per distinct set of effective options.
+ * A package never appears twice in the same batch.
+ */
+function groupDependencies(prepared: PreparedDependency[], strategy: InstallStrategy): PreparedDependency[][] {
+    if (strategy !== 'batched') {
+        return prepared.map(dep => [dep]);
+    }
 
-            logMessage(`stdout: ${stdout}`, verbose, logs);
-            logMessage(`stderr: ${stderr}`, verbose, logs);
-            logMessage(`error: ${error ? error.message : 'none'}`, verbose, logs);
-            logMessage(`success: ${success}, message: ${message}`, verbose, logs);
+    const groups: { key: string; members: PreparedDependency[] }[] = [];
+    for (const dep of prepared) {
+        const key = [...new Set(dep.options)].sort().join(' ');
+        const group = groups.find(candidate =>
+            candidate.key === key && !candidate.members.some(member => member.name === dep.name));
+        if (group) {
+            group.members.push(dep);
+        } else {
+            groups.push({ key, members: [dep] });
+        }
+    }
+    return groups.map(group => group.members);
+}
 
-            resolve({ success, message, logs: logs.join('\n') });
-        });
+/**
+ * Members of a failed batch named in its output, quoted or as a word, as
+ * package managers name the package they could not install. The command line,
+ * which names them all, is left out.
+ */
+function batchCulprits(output: string, invocation: CommandInvocation, group: PreparedDependency[]): string[] {
+    const text = output.split(formatInvocation(invocation)).join(' ');
+    return group.map(dep => dep.name).filter(name => {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[\\s'"\`/])${escaped}($|[\\s'"\`@:,])`).test(text);
     });
 }
 
 /**
- * Installs a list of npm dependencies with specified global and individual options.
+ * Loads a policy given as a file path and checks it, including that its mandatory
+ * flags would pass option validation.
  */
-export async function installDependencies(options: InstallOptions): Promise<InstallationResult> {
-    const { dependencies, globalOptions = [], verbose = true } = options;
-    const logs: string[] = [];
-    const results: InstallResult[] = [];
+async function resolvePolicy(option: InstallPolicy | string): Promise<InstallPolicy> {
+    const policy = typeof option === 'string' ? await loadPolicy(option) : option;
+    const reason = validatePolicy(policy) ??
+        (validateOptionTokens(policy.mandatoryFlags ?? []) ? null : 'mandatoryFlags must be valid option tokens');
+    if (reason) {
+        throw new Error(`Invalid policy: ${reason}`);
+    }
+    return policy;
+}
 
-    for (const dep of dependencies) {
-        const { name, override = false } = dep;
-        // dep.options is now string[] | undefined
-        // pass directly to parser which accepts array or string
-        const depOptionsVal = dep.options;
-
-        // Validate dependency name
-        if (!isValidDependencyName(name)) {
-            const errorMessage = `Invalid dependency name: ${name}`;
-            logMessage(errorMessage, verbose, logs);
-            results.push({ name, success: false, message: errorMessage });
-            continue;
+/**
+ * Interface for a validated installation, ready to run or to be reported as a plan
+ */
+interface Preparation {
+    manager?: PackageManagerAdapter; // missing if the package manager could not be resolved
+    cwd: string;
+    failures: Map<number, InstallError>; // validation errors by dependency index
+    notApplicable: Map<number, string>; // why the condition of a dependency does not hold, by index
+    groups: PreparedDependency[][]; // in run order
+    policy?: InstallPolicy;
+}
+
+/**
+ * Resolves the package manager, validates every dependency and groups the valid
+ * ones into commands, in an order where each dependency comes after those it
+ * depends on. Dependencies whose condition does not hold are set aside. Nothing
+ * is executed.
+ */
+async function prepareInstallation(options: InstallOptions, log: RunLog, operation: Operation = 'install'): Promise<Preparation> {
+    const { dependencies, globalOptions = [], packageManager = 'npm', strategy = 'sequential', managed = false } = options;
+    const cwd = resolveTarget(options.cwd);
+    const failures = new Map<number, InstallError>();
+    const notApplicable = new Map<number, string>();
+
+    // Conditions first: a dependency that does not apply cannot fail
+    const applicable: number[] = [];
+    dependencies.forEach((dep, index) => {
+        const reason = dep.when === undefined ? null : validateCondition(dep.when);
+        const unmet = dep.when === undefined || reason ? null : checkCondition(dep.when);
+        if (reason) {
+            const failure = createInstallError('INVALID_CONDITION', `Invalid condition for dependency ${dep.name}: ${reason}`);
+            log.warn(failure.message, { dependency: dep.name, code: failure.code });
+            failures.set(index, failure);
+        } else if (unmet) {
+            notApplicable.set(index, unmet);
+        } else {
+            applicable.push(index);
         }
+    });
+    const failAll = (failure: InstallError): Preparation => {
+        applicable.forEach(index => failures.set(index, failure));
+        return { cwd, failures, notApplicable, groups: [] };
+    };
 
-        // Validate global options
-        // IMPORTANT: don't coerce null -> [] here; if validation fails we must get `null`
-        // so the later error branch can detect invalid global options.
-        const validGlobalOptions = globalOptions ? validateOptionTokens(globalOptions) : [];
+    // A managed directory is created before installing; any other target must exist
+    let targetError: string | undefined;
+    if (managed && options.cwd === undefined) {
+        targetError = 'Managed mode requires a cwd';
+    } else if (!managed && !(await isDirectory(cwd))) {
+        targetError = `Install directory does not exist: ${cwd}`;
+    }
+    if (targetError) {
+        log.error(targetError, { cwd });
+        return failAll(createInstallError('INVALID_TARGET', targetError));
+    }
 
-        // Validate dependency options
-        const validDepOptions = parseAndValidateOptions(depOptionsVal);
+    const registryError = options.registry === undefined ? null : validateRegistryConfig(options.registry);
+    if (registryError) {
+        const errorMessage = `Invalid registry configuration: ${registryError}`;
+        log.error(errorMessage);
+        return failAll(createInstallError('INVALID_REGISTRY', errorMessage));
+    }
 
-        if (
-            (override && validDepOptions === null) ||
-            (!override && (validGlobalOptions === null || validDepOptions === null))
-        ) {
-            const errorMessage = `Invalid options for dependency: ${name}`;
-            logMessage(errorMessage, verbose, logs);
-            results.push({ name, success: false, message: errorMessage });
-            continue;
+    const audit = operation === 'uninstall' ? undefined : auditSettings(options.audit);
+    if (audit && !isAuditThreshold(audit.threshold)) {
+        const errorMessage = `Invalid audit threshold: ${audit.threshold} (expected low, moderate, high or critical)`;
+        log.error(errorMessage);
+        return failAll(createInstallError('INVALID_OPTIONS', errorMessage));
+    }
+
+    let policy: InstallPolicy | undefined;
+    if (options.policy !== undefined) {
+        try {
+            policy = await resolvePolicy(options.policy);
+        } catch (error) {
+            const errorMessage = (error as Error).message;
+            log.error(errorMessage, { policy: typeof options.policy === 'string' ? options.policy : undefined });
+            return failAll(createInstallError('INVALID_POLICY', errorMessage));
+        }
+    }
+
+    let manager: PackageManagerAdapter;
+    try {
+        manager = await resolvePackageManager(packageManager, cwd);
+    } catch (error) {
+        const errorMessage = (error as Error).message;
+        log.error(errorMessage, { packageManager });
+        return failAll(createInstallError('UNSUPPORTED_PACKAGE_MANAGER', errorMessage));
+    }
+    log.debug(`package manager: ${manager.name}`, { packageManager: manager.name, cwd });
+    if (operation !== 'install' && !manager[OPERATION_ARGS[operation]]) {
+        const errorMessage = `The ${manager.name} adapter does not support ${operation}: it has no ${OPERATION_ARGS[operation]}`;
+        log.error(errorMessage, { packageManager: manager.name });
+        return { ...failAll(createInstallError('UNSUPPORTED_PACKAGE_MANAGER', errorMessage)), manager };
+    }
+    if (options.registry !== undefined && manager.npmConfig === false) {
+        const errorMessage = `Invalid registry configuration: ${manager.name} does not read npm's configuration in ${cwd}, configure its registries in the project instead`;
+        log.error(errorMessage, { packageManager: manager.name });
+        return { ...failAll(createInstallError('INVALID_REGISTRY', errorMessage)), manager };
+    }
+    if (audit && !manager.auditArgs) {
+        const errorMessage = `The ${manager.name} adapter does not support audit: it has no auditArgs`;
+        log.error(errorMessage, { packageManager: manager.name });
+        return { ...failAll(createInstallError('UNSUPPORTED_PACKAGE_MANAGER', errorMessage)), manager };
+    }
+
+    // Order the run by dependsOn; dependencies waiting for each other fail
+    const names = new Set(dependencies.map(dep => dep.name));
+    const orderable = applicable.filter(index => {
+        const { name, dependsOn } = dependencies[index];
+        const reason = validateDependsOn(dependsOn, names);
+        if (reason) {
+            const failure = createInstallError('INVALID_DEPENDS_ON', `Invalid dependsOn for dependency ${name}: ${reason}`);
+            log.warn(failure.message, { dependency: name, code: failure.code });
+            failures.set(index, failure);
+        }
+        return !reason;
+    });
+    const { levels, cycles } = orderDependencies(dependencies, orderable);
+    for (const [index, cycle] of cycles) {
+        const { name } = dependencies[index];
+        const failure = createInstallError('DEPENDENCY_CYCLE', `Dependency cycle for dependency ${name}: ${cycle.join(' -> ')}`);
+        log.warn(failure.message, { dependency: name, code: failure.code });
+        failures.set(index, failure);
+    }
+
+    // Each level is grouped on its own, so a batch never holds a dependency and what it depends on
+    const groups: PreparedDependency[][] = [];
+    for (const level of levels) {
+        const prepared: PreparedDependency[] = [];
+        for (const index of level) {
+            const dep = dependencies[index];
+            // Integrity is only recorded in npm's lockfiles: with another manager every pin would fail
+            const outcome = dep.integrity !== undefined && manager.name !== 'npm' && (operation === 'install' || operation === 'update')
+                ? { error: createInstallError('INVALID_INTEGRITY', `Invalid pin for dependency ${dep.name}: integrity can only be checked with npm, not ${manager.name}`) }
+                : prepareDependency(dep, index, globalOptions, options.flags, policy, operation);
+            if ('error' in outcome) {
+                log.warn(outcome.error.message, { dependency: dep.name, code: outcome.error.code });
+                failures.set(index, outcome.error);
+            } else {
+                prepared.push(outcome);
+            }
         }
+        groups.push(...groupDependencies(prepared, strategy));
+    }
+
+    return { manager, cwd, failures, notApplicable, groups, policy };
+}
 
-        // Build final options
-        const finalOptions = override
-            ? validDepOptions!
-            : [...(validGlobalOptions ?? []), ...validDepOptions!];
+/**
+ * Builds the command installing a group of prepared dependencies. The command is
+ * an argv: every token is passed verbatim, no shell involved. A batch gets the
+ * largest timeout of its members, or none if any member has none.
+ */
+function createInvocation(
+    manager: PackageManagerAdapter,
+    group: PreparedDependency[],
+    cwd: string,
+    operation: Operation = 'install'
+): CommandInvocation {
+    const specs = group.map(dep => dep.spec);
+    const { options } = group[0];
+    let args: string[];
+    if (operation === 'install') {
+        args = manager.installArgs(specs, options);
+    } else if (operation === 'cleanInstall') {
+        args = manager.cleanInstallArgs!(options);
+    } else {
+        args = manager[OPERATION_ARGS[operation]]!(specs, options);
+    }
+    const invocation: CommandInvocation = { command: manager.command, args, cwd };
+    if (group.every(dep => dep.timeoutMs !== undefined)) {
+        invocation.timeoutMs = Math.max(...group.map(dep => dep.timeoutMs!));
+    }
+    return invocation;
+}
 
-        // Build command
-        const depCommand = ['npm install', name, ...finalOptions].join(' ').trim();
+/**
+ * Delivers an event to the onEvent callback. A throwing callback never breaks the run.
+ */
+function emitEvent(onEvent: ((event: InstallEvent) => void) | undefined, event: InstallEvent, log: RunLog): void {
+    if (!onEvent) return;
+    try {
+        onEvent(event);
+    } catch (error) {
+        log.warn(`onEvent callback threw: ${(error as Error).message}`, { event: event.type });
+    }
+}
 
-        // Run command and capture result
-        const result = await executeCommand(depCommand, verbose, logs);
-        results.push({ name, success: result.success, message: result.message });
+/**
+ * Restores the snapshot of an atomic installation and, if requested, syncs
+ * node_modules with the restored manifest and lockfile.
+ */
+async function rollBack(
+    snapshot: Snapshot,
+    manager: PackageManagerAdapter,
+    reconcile: boolean,
+    context: ExecutionContext
+): Promise<RollbackResult> {
+    const { log } = context;
+    log.warn('rolling back package.json and lockfiles', { cwd: snapshot.cwd });
+    try {
+        await restoreSnapshot(snapshot);
+    } catch (error) {
+        const message = `Rollback failed: ${(error as Error).message}`;
+        log.error(message, { cwd: snapshot.cwd });
+        return { performed: true, success: false, message };
     }
 
-    const overallSuccess = results.every(result => result.success);
+    if (!reconcile) {
+        return { performed: true, success: true, message: 'Restored package.json and lockfiles' };
+    }
 
+    const invocation: CommandInvocation = { command: manager.command, args: manager.syncArgs(), cwd: snapshot.cwd };
+    // The run may have been aborted: the reconcile must still happen
+    const result = await executeCommand(invocation, { ...context, signal: undefined, retry: undefined });
     return {
+        performed: true,
+        success: result.success,
+        reconciled: result.success,
+        message: result.success
+            ? 'Restored package.json and lockfiles and reconciled node_modules'
+            : `Restored package.json and lockfiles but could not reconcile node_modules: ${result.message}`
+    };
+}
+
+/**
+ * Checks an installed dependency against its pin. On a mismatch the dependency
+ * fails and, when asked to, is uninstalled again.
+ */
+async function verifyInstalled(
+    result: InstallResult,
+    pin: IntegrityPin,
+    cwd: string,
+    manager: PackageManagerAdapter,
+    uninstall: boolean,
+    context: ExecutionContext
+): Promise<InstallResult> {
+    const { log } = context;
+    const mismatches = await verifyPin(result.name, pin, cwd);
+    if (mismatches.length === 0) {
+        log.info(`verified: ${result.name}`, { dependency: result.name, ...pin });
+        return result;
+    }
+
+    let message = `Integrity check failed for dependency ${result.name}: ${mismatches.join('; ')}`;
+    log.error(message, { dependency: result.name, ...pin });
+    if (uninstall) {
+        if (!manager.uninstallArgs) {
+            message += `; could not uninstall it: the ${manager.name} adapter has no uninstallArgs`;
+        } else {
+            const invocation: CommandInvocation = { command: manager.command, args: manager.uninstallArgs([result.name]), cwd };
+            // The package must go even if the run was aborted meanwhile
+            const removal = await executeCommand(invocation, { ...context, signal: undefined, retry: undefined });
+            message += removal.success ? '; uninstalled it' : `; could not uninstall it: ${removal.message}`;
+        }
+    }
+    return { ...result, success: false, status: 'failed', message, error: createInstallError('INTEGRITY_MISMATCH', message) };
+}
+
+/**
+ * Interface for what resolving peer dependencies needs from the run
+ */
+interface PeerResolution {
+    manager: PackageManagerAdapter;
+    cwd: string;
+    globalOptions: string[];
+    globalFlags?: InstallFlags;
+    policy?: InstallPolicy;
+    install: boolean; // false to only report unresolved peers
+    context: ExecutionContext;
+    deadline?: number;
+}
+
+/**
+ * Checks the peer dependencies of an installed dependency and, unless only
+ * reporting, installs the missing ones with the dependency's own options,
+ * through the same validation and policy. A peer installed at a version out of
+ * range is left alone: replacing it could break the packages using it. A
+ * required peer left unresolved then fails the dependency; when reporting, it
+ * is only listed.
+ */
+async function resolvePeers(result: InstallResult, dep: Dependency, resolution: PeerResolution): Promise<InstallResult> {
+    const { manager, cwd, context, deadline } = resolution;
+    const { log } = context;
+    const peers = await checkPeers(result.name, cwd);
+    const missing = peers.filter(peer => peer.status === 'unresolved' && peer.version === undefined);
+
+    if (resolution.install && missing.length > 0) {
+        const prepared: PreparedDependency[] = [];
+        for (const peer of missing) {
+            const peerDep: Dependency = { name: peer.name, version: peer.range, options: dep.options, flags: dep.flags, override: dep.override };
+            const outcome = prepareDependency(peerDep, -1, resolution.globalOptions, resolution.globalFlags, resolution.policy);
+            if ('error' in outcome) {
+                peer.message = outcome.error.message;
+            } else {
+                prepared.push(outcome);
+            }
+        }
+        for (const group of groupDependencies(prepared, 'batched')) {
+            log.info(`installing peers of ${result.name}: ${group.map(peer => peer.spec).join(', ')}`, { dependency: result.name });
+            const peerResult = await executeCommand(createInvocation(manager, group, cwd), context, deadline);
+            for (const { name } of group) {
+                const peer = missing.find(candidate => candidate.name === name)!;
+                if (peerResult.success) {
+                    peer.status = 'installed';
+                    peer.version = (await readInstalledPackage(name, cwd))?.version;
+                    delete peer.message;
+                } else {
+                    peer.message = `Could not install ${name}@${peer.range}: ${peerResult.message}`;
+                }
+            }
+        }
+    }
+
+    for (const peer of peers) {
+        const fields = { dependency: result.name, peer: peer.name, range: peer.range, status: peer.status };
+        if (peer.status === 'unresolved') {
+            log.warn(`unresolved peer of ${result.name}: ${peer.message}`, fields);
+        } else {
+            log.debug(`peer of ${result.name}: ${peer.name}@${peer.range} ${peer.status}`, fields);
+        }
+    }
+
+    const remaining = peers.filter(peer => peer.status === 'unresolved');
+    if (!resolution.install || remaining.length === 0) {
+        return { ...result, peers };
+    }
+    const message = `Unresolved peer dependencies of ${result.name}: ${remaining.map(peer => peer.message).join('; ')}`;
+    return { ...result, success: false, status: 'failed', message, peers, error: createInstallError('UNRESOLVED_PEERS', message) };
+}
+
+/**
+ * The audit option with its defaults, or undefined when there is no audit.
+ */
+function auditSettings(option: boolean | AuditOptions | undefined): Required<AuditOptions> | undefined {
+    if (!option) return undefined;
+    const { threshold = 'high', rollback = false } = option === true ? {} : option;
+    return { threshold, rollback };
+}
+
+/**
+ * Runs the package manager's audit and reads its report. Advisories at or above
+ * the threshold block the run when they affect a package it added or updated;
+ * `introduced` is null when that is unknown, then they all do. The audit exits
+ * with an error code when it finds advisories, so only its report tells whether
+ * it ran: an audit without a report fails the run too.
+ */
+async function auditInstallation(
+    manager: PackageManagerAdapter,
+    cwd: string,
+    threshold: AuditThreshold,
+    introduced: Set<string> | null,
+    context: ExecutionContext,
+    deadline?: number
+): Promise<AuditResult> {
+    const { runner, log, signal, env } = context;
+    const invocation: CommandInvocation = { command: manager.command, args: manager.auditArgs!(), cwd, signal, ...(env && { env }) };
+    if (deadline !== undefined) {
+        invocation.timeoutMs = Math.max(0, deadline - Date.now());
+    }
+    log.info(`command: ${formatInvocation(invocation)}`, { command: invocation.command, args: invocation.args, cwd });
+
+    let advisories: AuditAdvisory[];
+    try {
+        const output = await runner.run(invocation);
+        try {
+            advisories = parseAuditReport(output.stdout, manager.name);
+        } catch (error) {
+            throw output.error ?? error;
+        }
+    } catch (error) {
+        const message = log.redact(`Audit failed: ${(error as Error).message}`);
+        log.error(message, { cwd });
+        return {
+            success: false,
+            passed: false,
+            threshold,
+            advisories: [],
+            blocking: [],
+            counts: countBySeverity([]),
+            message,
+            error: createInstallError('AUDIT_FAILED', message)
+        };
+    }
+
+    const counts = countBySeverity(advisories);
+    const summary = SEVERITIES.filter(severity => counts[severity] > 0).reverse().map(severity => `${counts[severity]} ${severity}`);
+    log.info(`audit: ${advisories.length} advisories${summary.length > 0 ? ` (${summary.join(', ')})` : ''}`, { ...counts });
+    const blocking = advisories.filter(advisory =>
+        meetsThreshold(advisory.severity, threshold) && (introduced === null || introduced.has(advisory.name)));
+    for (const advisory of blocking) {
+        log.warn(`advisory ${advisory.id}: ${advisory.name} (${advisory.severity}) ${advisory.title}`, { ...advisory });
+    }
+
+    if (blocking.length === 0) {
+        const message = `Audit passed: no ${threshold} or higher advisory in what the run installed`;
+        return { success: true, passed: true, threshold, advisories, blocking, counts, message };
+    }
+    const message = `Audit found ${blocking.length} ${threshold} or higher ${blocking.length > 1 ? 'advisories' : 'advisory'} in what the run installed: ` +
+        blocking.map(advisory => `${advisory.name} (${advisory.severity}: ${advisory.title})`).join(', ');
+    return { success: true, passed: false, threshold, advisories, blocking, counts, message, error: createInstallError('VULNERABLE', message) };
+}
+
+/**
+ * Uninstalls the dependencies that brought in blocking advisories, directly or
+ * through their own dependencies, and marks them rolled back. Only those the
+ * run added are removed: one the project had before the run (or when that is
+ * unknown) is left in place and fails instead. Advisories the report does not
+ * trace back to a dependency of the run are left alone.
+ */
+async function rollBackVulnerable(
+    results: InstallResult[],
+    audit: AuditResult,
+    manager: PackageManagerAdapter,
+    cwd: string,
+    before: InstalledTree | undefined,
+    context: ExecutionContext
+): Promise<void> {
+    const { log } = context;
+    const offending = results.filter(result => result.success && result.status !== 'not-applicable' &&
+        audit.blocking.some(advisory => advisory.name === result.name || advisory.roots.includes(result.name)));
+    if (offending.length === 0) {
+        log.warn('no dependency of the run could be traced to the blocking advisories: nothing rolled back', { cwd });
+        return;
+    }
+    const reasonOf = (result: InstallResult): string => {
+        const titles = audit.blocking
+            .filter(advisory => advisory.name === result.name || advisory.roots.includes(result.name))
+            .map(advisory => `${advisory.name} (${advisory.severity}: ${advisory.title})`);
+        return `${result.name} brings in ${titles.join(', ')}`;
+    };
+    const fail = (result: InstallResult, message: string): void => {
+        result.success = false;
+        result.status = 'failed';
+        result.message = message;
+        result.error = createInstallError('VULNERABLE', message);
+    };
+
+    // Uninstalling a package the project already had would remove it from the project
+    const added = offending.filter(result => before !== undefined && !before.packages.has(`node_modules/${result.name}`));
+    for (const result of offending.filter(result => !added.includes(result))) {
+        const previous = before?.packages.get(`node_modules/${result.name}`);
+        const kept = previous === undefined
+            ? 'what was installed before the run is unknown'
+            : `it was installed before the run, at ${previous}`;
+        log.warn(`not rolling back ${result.name}: ${kept}`, { dependency: result.name });
+        fail(result, `${reasonOf(result)}; left in place: ${kept}`);
+    }
+    if (added.length === 0) return;
+    if (!manager.uninstallArgs) {
+        log.warn(`the ${manager.name} adapter has no uninstallArgs: nothing rolled back`, { packageManager: manager.name });
+        return;
+    }
+
+    const names = [...new Set(added.map(result => result.name))];
+    log.warn(`rolling back ${names.join(', ')}`, { dependencies: names });
+    const uninstall = await executeCommand({ command: manager.command, args: manager.uninstallArgs(names), cwd }, context);
+    for (const result of added) {
+        const reason = reasonOf(result);
+        if (uninstall.success) {
+            result.success = false;
+            result.status = 'rolled-back';
+            result.message = `Rolled back: ${reason}`;
+            result.error = createInstallError('VULNERABLE', result.message);
+        } else {
+            fail(result, `${reason}; could not uninstall it: ${uninstall.message}`);
+        }
+    }
+}
+
+/**
+ * Locks the install directory of a run. Returns the held lock, or the outcome
+ * of every dependency when the directory stays locked.
+ */
+async function lockTarget(
+    cwd: string,
+    option: true | LockOptions,
+    signal: AbortSignal | undefined,
+    deadline: number | undefined,
+    log: RunLog
+): Promise<{ lock: InstallLock } | { status: 'failed' | 'skipped'; error: InstallError; timedOut?: boolean }> {
+    const lockOptions = option === true ? {} : option;
+    let attempt: LockAttempt;
+    try {
+        attempt = await acquireLock(cwd, lockOptions, signal, deadline);
+    } catch (error) {
+        const message = `Could not lock ${cwd}: ${(error as Error).message}`;
+        log.error(message, { cwd });
+        return { status: 'failed', error: createInstallError('LOCKED', message) };
+    }
+    if (attempt.acquired) {
+        log.debug(`locked: ${attempt.lock.path}`, { path: attempt.lock.path });
+        return { lock: attempt.lock };
+    }
+
+    const fields = { cwd, ...(attempt.holder && { holder: attempt.holder }) };
+    if (attempt.timedOut) {
+        log.error(attempt.message, fields);
+        return { status: 'failed', error: createInstallError('TIMEOUT', attempt.message), timedOut: true };
+    }
+    const skip = lockOptions.onLocked === 'skip';
+    const message = skip ? `Not installed: ${attempt.message}` : attempt.message;
+    if (skip) {
+        log.warn(message, fields);
+    } else {
+        log.error(message, fields);
+    }
+    return { status: skip ? 'skipped' : 'failed', error: createInstallError('LOCKED', message) };
+}
+
+/**
+ * Releases the lock of a run, logging instead of failing the run when it cannot.
+ */
+async function unlockTarget(lock: InstallLock | undefined, log: RunLog): Promise<void> {
+    await lock?.release().catch(error =>
+        log.warn(`could not release the lock: ${(error as Error).message}`, { path: lock.path }));
+}
+
+/**
+ * Reads the installed packages of a project, logging instead of failing the run when it cannot.
+ */
+async function readTree(cwd: string, log: RunLog): Promise<InstalledTree | undefined> {
+    try {
+        return await readInstalledTree(cwd);
+    } catch (error) {
+        log.warn(`could not read the installed packages: ${(error as Error).message}`, { cwd });
+        return undefined;
+    }
+}
+
+/**
+ * Runs one installation, see installDependencies.
+ */
+async function runInstallation(options: InstallOptions, operation: Operation): Promise<InstallationResult> {
+    const {
+        dependencies,
+        logger,
+        verbose = !logger,
+        onEvent,
+        runner = spawnRunner,
+        atomic = false,
+        managed = false,
+        timeoutMs,
+        signal,
+        retry,
+        registry,
+        onIntegrityMismatch = 'fail',
+        installPeers = false,
+        onFailure = 'continue'
+    } = options;
+    const auditing = operation === 'uninstall' ? undefined : auditSettings(options.audit);
+    const log = createRunLog(verbose, logger, registrySecrets(registry));
+    const emit = (event: InstallEvent): void => emitEvent(onEvent, event, log);
+    const results: InstallResult[] = new Array(dependencies.length);
+    const context: ExecutionContext = { runner, log, retry, signal };
+    const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+    const finish = (index: number, result: InstallResult): void => {
+        results[index] = dependencies[index].optional ? { ...result, optional: true } : result;
+        emit({ type: 'dependency-end', name: result.name, result: results[index] });
+    };
+    // Optional dependencies never stop the run
+    const required = (index: number): boolean => !dependencies[index].optional;
+
+    emit({ type: 'run-start', dependencies: dependencies.map(dep => dep.name) });
+
+    // Validate everything before running anything
+    const preparation = await prepareInstallation(options, log, operation);
+    const { manager, cwd, failures, notApplicable } = preparation;
+    let { groups } = preparation;
+
+    // Create or repair the managed directory before snapshotting or installing into it
+    if (managed && groups.length > 0) {
+        try {
+            await initPluginDirectory(cwd);
+            log.debug(`plugin directory: ${cwd}`, { cwd });
+        } catch (error) {
+            const failure = createInstallError('INVALID_TARGET', `Could not prepare plugin directory: ${(error as Error).message}`);
+            log.error(failure.message, { cwd });
+            groups.flat().forEach(({ index }) => failures.set(index, failure));
+            groups = [];
+        }
+    }
+
+    // Other processes installing into the same directory wait, fail or skip until the run is over
+    let lock: InstallLock | undefined;
+    if (options.lock && groups.length > 0) {
+        const locking = await lockTarget(cwd, options.lock, signal, deadline, log);
+        if ('lock' in locking) {
+            lock = locking.lock;
+        } else {
+            for (const { index, name } of groups.flat()) {
+                const { status, error, timedOut } = locking;
+                finish(index, { name, success: false, status, message: error.message, ...(timedOut && { timedOut }), error });
+            }
+            groups = [];
+        }
+    }
+
+    // Registries apply through a temporary npmrc, removed once the run is over
+    let session: RegistrySession | undefined;
+    if (registry && groups.length > 0) {
+        try {
+            session = await createRegistrySession(registry);
+            context.env = session.env;
+            log.debug(`registry configuration: ${session.npmrc}`, { npmrc: session.npmrc });
+        } catch (error) {
+            const failure = createInstallError('INVALID_REGISTRY', `Could not write the registry configuration: ${(error as Error).message}`);
+            log.error(failure.message);
+            groups.flat().forEach(({ index }) => failures.set(index, failure));
+            groups = [];
+        }
+    }
+
+    // What is installed before the run, compared with what is installed after it
+    const before = groups.length > 0 ? await readTree(cwd, log) : undefined;
+
+    for (const [index, error] of failures) {
+        finish(index, { name: dependencies[index].name, success: false, status: 'failed', message: error.message, error });
+    }
+    for (const [index, reason] of notApplicable) {
+        const { name } = dependencies[index];
+        log.info(`not applicable: ${name} (${reason})`, { dependency: name });
+        finish(index, { name, success: true, status: 'not-applicable', message: `Not applicable: ${reason}` });
+    }
+
+    let snapshot: Snapshot | undefined;
+    let stopReason: string | undefined;
+    const invalid = [...failures.keys()].filter(required);
+    if (onFailure === 'abort' && invalid.length > 0) {
+        stopReason = `installation stopped because ${invalid.map(index => dependencies[index].name).join(', ')} failed validation`;
+    }
+    if (atomic && groups.length > 0) {
+        if (invalid.length > 0) {
+            stopReason = 'atomic installation aborted because some dependencies are invalid';
+        } else {
+            try {
+                snapshot = await takeSnapshot(cwd);
+            } catch (error) {
+                stopReason = `could not snapshot package.json and lockfiles: ${(error as Error).message}`;
+            }
+        }
+    }
+
+    for (const planned of groups) {
+        const timedOut = deadline !== undefined && Date.now() >= deadline;
+        if (signal?.aborted) {
+            stopReason = 'installation aborted';
+        } else if (timedOut) {
+            stopReason = `installation timed out after ${timeoutMs}ms`;
+        }
+        if (stopReason) {
+            const message = `Not installed: ${stopReason}`;
+            const code = signal?.aborted ? 'ABORTED' : timedOut ? 'TIMEOUT' : 'SKIPPED';
+            for (const { index, name } of planned) {
+                finish(index, {
+                    name,
+                    success: false,
+                    status: 'skipped',
+                    message,
+                    ...(signal?.aborted && { aborted: true }),
+                    ...(timedOut && { timedOut: true }),
+                    error: createInstallError(code, message)
+                });
+            }
+            continue;
+        }
+
+        // Dependencies waiting for one that did not succeed are skipped with it
+        const group = onFailure === 'skip-dependents' ? planned.filter(({ index, name }) => {
+            const { dependsOn = [] } = dependencies[index];
+            const unmet = dependencies.filter((dep, other) => dependsOn.includes(dep.name) && !results[other].success);
+            if (unmet.length === 0) return true;
+            const message = `Not installed: depends on ${unmet.map(dep => dep.name).join(', ')}, which did not succeed`;
+            finish(index, { name, success: false, status: 'skipped', message, error: createInstallError('SKIPPED', message) });
+            return false;
+        }) : planned;
+        if (group.length === 0) continue;
+
+        const names = group.map(dep => dep.name);
+        const invocation = createInvocation(manager!, group, cwd, operation);
+        if (onEvent) {
+            invocation.onStdout = chunk => emit({ type: 'stdout', dependencies: names, chunk: log.redact(chunk) });
+            invocation.onStderr = chunk => emit({ type: 'stderr', dependencies: names, chunk: log.redact(chunk) });
+        }
+        for (const name of names) {
+            emit({ type: 'dependency-start', name, command: invocation });
+        }
+
+        // Run command and map its result back to every dependency of the group. When a batch
+        // fails because of some of its members, the others fail with BATCH_FAILED.
+        const result = await executeCommand(invocation, context, deadline);
+        const culprits = result.success || result.timedOut || result.aborted || group.length === 1
+            ? []
+            : batchCulprits(result.output, invocation, group);
+        const blamed = culprits.length > 0 && culprits.length < group.length;
+        for (const { index, name, pin } of group) {
+            const innocent = blamed && !culprits.includes(name);
+            const message = innocent ? `Batch failed because of ${culprits.join(', ')}: ${result.message}` : result.message;
+            const error = innocent ? createInstallError('BATCH_FAILED', message, { exitCode: result.exitCode }) : result.error;
+            let installResult: InstallResult = {
+                name,
+                success: result.success,
+                status: result.success ? OPERATION_STATUS[operation] : 'failed',
+                message,
+                attempts: result.attempts,
+                ...(result.timedOut && { timedOut: true }),
+                ...(result.aborted && { aborted: true }),
+                ...(error && { error })
+            };
+            if (result.success && pin) {
+                installResult = await verifyInstalled(installResult, pin, cwd, manager!, onIntegrityMismatch === 'uninstall', context);
+            }
+            if (installResult.success && installPeers && (operation === 'install' || operation === 'update')) {
+                installResult = await resolvePeers(installResult, dependencies[index], {
+                    manager: manager!,
+                    cwd,
+                    globalOptions: options.globalOptions ?? [],
+                    globalFlags: options.flags,
+                    policy: preparation.policy,
+                    install: installPeers === true,
+                    context,
+                    deadline
+                });
+            }
+            finish(index, installResult);
+        }
+        for (const { index, name } of group) {
+            if (!results[index].success && !required(index)) {
+                log.warn(`optional dependency ${name} failed, continuing`, { dependency: name });
+            }
+        }
+        const failed = group.filter(({ index }) => !results[index].success && required(index));
+        if (failed.length > 0 && atomic) {
+            stopReason = `atomic installation stopped after ${failed.map(dep => dep.name).join(', ')} failed`;
+        } else if (failed.length > 0 && onFailure === 'abort') {
+            stopReason = `installation stopped after ${failed.map(dep => dep.name).join(', ')} failed`;
+        }
+    }
+
+    // Audit what the run installed, unless it is about to be rolled back anyway
+    let audit: AuditResult | undefined;
+    const installed = results.some(result => result.success && result.status !== 'not-applicable');
+    if (auditing && installed && !(snapshot && stopReason)) {
+        // A clean install compares with a lockfile that already lists everything: all of it counts
+        const current = before && operation !== 'cleanInstall' ? await readTree(cwd, log) : undefined;
+        const introduced = before && current
+            ? new Set(diffInstalledTrees(before, current).filter(change => change.type !== 'removed').map(change => change.name))
+            : null;
+        audit = await auditInstallation(manager!, cwd, auditing.threshold, introduced, context, deadline);
+        if (!audit.passed && auditing.rollback) {
+            if (snapshot) {
+                stopReason = audit.message;
+            } else {
+                await rollBackVulnerable(results, audit, manager!, cwd, before, context);
+            }
+        }
+    }
+
+    let rollback: RollbackResult | undefined;
+    if (atomic) {
+        rollback = { performed: false, success: true, message: 'No rollback needed' };
+        if (snapshot && stopReason) {
+            const reconcile = typeof atomic === 'object' && Boolean(atomic.reconcile);
+            rollback = await rollBack(snapshot, manager!, reconcile, context);
+            if (rollback.success) {
+                for (const result of results) {
+                    if (result.success && result.status !== 'not-applicable') {
+                        result.success = false;
+                        result.status = 'rolled-back';
+                        result.message = `Rolled back: ${stopReason}`;
+                        result.error = createInstallError('ROLLED_BACK', result.message);
+                    }
+                }
+            }
+        }
+    }
+
+    if (session) {
+        await session.cleanup().catch(error =>
+            log.warn(`could not remove the registry configuration: ${(error as Error).message}`, { npmrc: session!.npmrc }));
+    }
+
+    let changes: PackageChange[] | undefined;
+    const after = before && await readTree(cwd, log);
+    await unlockTarget(lock, log);
+    if (before && after) {
+        changes = diffInstalledTrees(before, after);
+        const count = (type: PackageChange['type']): number => changes!.filter(change => change.type === type).length;
+        log.info(`changes: ${count('added')} added, ${count('updated')} updated, ${count('removed')} removed`, { cwd });
+        for (const change of changes) {
+            log.debug(`${change.type}: ${change.path} ${change.from ?? '-'} -> ${change.to ?? '-'}`, { ...change });
+        }
+        // Resolved versions of the dependencies at the top of node_modules
+        for (const result of results) {
+            if (!result.success || result.status === 'not-applicable') continue;
+            const version = after.packages.get(`node_modules/${result.name}`);
+            const previousVersion = before.packages.get(`node_modules/${result.name}`);
+            if (version !== undefined) {
+                result.version = version;
+            }
+            if (previousVersion !== undefined && previousVersion !== version) {
+                result.previousVersion = previousVersion;
+            }
+        }
+    }
+
+    const overallSuccess = results.every((result, index) => result.success || !required(index)) && (audit?.passed ?? true);
+
+    const installation: InstallationResult = {
         success: overallSuccess,
+        packageManager: manager?.name,
         details: results,
-        logs: logs.join('\n'),
-        logsArray: logs
+        ...(rollback && { rollback }),
+        ...(changes && { changes }),
+        ...(audit && { audit }),
+        logs: log.lines.join('\n'),
+        logsArray: log.lines
+    };
+    emit({ type: 'run-end', result: installation });
+    return installation;
+}
+
+/**
+ * Interface for a run in flight that identical requests can join
+ */
+interface InFlightRun {
+    runner?: CommandRunner;
+    packageManager?: PackageManagerOption;
+    signal?: AbortSignal;
+    promise: Promise<InstallationResult>;
+}
+
+// Runs in flight by request, shared by identical concurrent calls
+const inFlight = new Map<string, InFlightRun>();
+
+/**
+ * Starts a run, unless an identical one is in flight: then its result is shared.
+ */
+function startRun(operation: Operation, options: InstallOptions): Promise<InstallationResult> {
+    const { runner, packageManager, signal } = options;
+    // Callbacks are left out: a joining call gets the result, not the events and log entries
+    const key = JSON.stringify([
+        operation,
+        resolveTarget(options.cwd),
+        options.dependencies,
+        options.globalOptions,
+        options.flags,
+        options.managed,
+        typeof packageManager === 'object' ? undefined : packageManager,
+        options.strategy,
+        options.onFailure,
+        options.atomic,
+        options.timeoutMs,
+        options.retry,
+        options.policy,
+        options.registry,
+        options.onIntegrityMismatch,
+        options.lock,
+        options.installPeers,
+        options.audit
+    ]);
+
+    const current = inFlight.get(key);
+    if (current && current.runner === runner && current.packageManager === packageManager && current.signal === signal) {
+        return current.promise;
+    }
+    const run: InFlightRun = { runner, packageManager, signal, promise: runInstallation(options, operation) };
+    inFlight.set(key, run);
+    const settle = (): void => {
+        if (inFlight.get(key) === run) inFlight.delete(key);
+    };
+    run.promise.then(settle, settle);
+    return run.promise;
+}
+
+/**
+ * Installs a list of dependencies with specified global and individual options.
+ * Options are written npm-style and translated by the package-manager adapter.
+ * In atomic mode nothing runs unless every dependency is valid, the first failure
+ * stops the run, and package.json and lockfiles are restored. A call identical to
+ * a run in flight shares its result instead of installing again.
+ */
+export function installDependencies(options: InstallOptions): Promise<InstallationResult> {
+    return startRun('install', options);
+}
+
+/**
+ * Removes a list of dependencies, with the same validation, option merging,
+ * batching and atomic mode as installDependencies. Dependencies are given by
+ * name only; successful ones get the 'uninstalled' status.
+ */
+export function uninstallDependencies(options: InstallOptions): Promise<InstallationResult> {
+    return startRun('uninstall', options);
+}
+
+/**
+ * Updates a list of dependencies to the newest versions allowed by their ranges
+ * in package.json, with the same validation, option merging, batching and atomic
+ * mode as installDependencies. Successful ones get the 'updated' status, with
+ * their `previousVersion` when it changed.
+ */
+export function updateDependencies(options: InstallOptions): Promise<InstallationResult> {
+    return startRun('update', options);
+}
+
+/**
+ * Installs the project exactly as its lockfile records it (`npm ci`,
+ * `<manager> install --frozen-lockfile`), failing when the lockfile is out of
+ * date. The result has a single entry, named after the project.
+ */
+export async function cleanInstall(options: CleanInstallOptions = {}): Promise<InstallationResult> {
+    const cwd = resolveTarget(options.cwd);
+    const manifest = await readDataFile(join(cwd, 'package.json')).catch(() => null) as Record<string, unknown> | null;
+    const name = typeof manifest?.name === 'string' ? manifest.name : basename(cwd);
+    return startRun('cleanInstall', { ...options, dependencies: [{ name }] });
+}
+
+/**
+ * Runs all the validation of installDependencies (names, versions, options,
+ * override merging, batching) and returns the commands it would run, without
+ * executing anything.
+ */
+export async function planInstallation(options: InstallOptions): Promise<InstallationPlan> {
+    const { manager, cwd, failures, notApplicable, groups } = await prepareInstallation(options, createRunLog(false));
+
+    return {
+        valid: failures.size === 0,
+        packageManager: manager?.name,
+        cwd,
+        commands: groups.map(group => ({
+            ...createInvocation(manager!, group, cwd),
+            cwd,
+            dependencies: group.map(dep => dep.name)
+        })),
+        failures: [...failures]
+            .sort(([a], [b]) => a - b)
+            .map(([index, error]) => ({ name: options.dependencies[index].name, message: error.message, code: error.code })),
+        ...(notApplicable.size > 0 && {
+            notApplicable: [...notApplicable].map(([index, reason]) => ({ name: options.dependencies[index].name, reason }))
+        })
+    };
+}
+
+/**
+ * Interface for the installed state of a dependency
+ */
+interface InstalledCheck {
+    satisfied: boolean;
+    version?: string;
+}
+
+/**
+ * Checks whether a dependency is already installed in `cwd` at a version that
+ * satisfies its range. Sources other than npm aliases cannot be checked offline,
+ * so for them being present is enough.
+ */
+async function checkInstalled(dep: Dependency, cwd: string): Promise<InstalledCheck> {
+    try {
+        buildInstallSpec(dep);
+    } catch {
+        // Invalid specs are left to installDependencies, which reports them
+        return { satisfied: false };
+    }
+
+    const installed = await readInstalledPackage(dep.name, cwd);
+    if (!installed) {
+        return { satisfied: false };
+    }
+
+    const alias = dep.source?.type === 'alias' ? dep.source : undefined;
+    const expectedName = alias ? alias.package : dep.name;
+    const range = alias ? alias.version : dep.version;
+    let satisfied = installed.name === expectedName && (range === undefined || satisfies(installed.version, range));
+    // A pinned package is only satisfied when it still matches its pin
+    if (satisfied && (dep.integrity !== undefined || dep.expectedVersion !== undefined)) {
+        satisfied = validatePin(dep, dep.version) === null && (await verifyPin(dep.name, dep, cwd)).length === 0;
+    }
+    return { satisfied, version: installed.version };
+}
+
+/**
+ * Installs only the dependencies that are missing from node_modules or whose
+ * installed version does not satisfy the requested range. Satisfied dependencies
+ * are reported as 'already-satisfied' without running the package manager.
+ */
+export async function ensureDependencies(options: InstallOptions): Promise<InstallationResult> {
+    const { dependencies, logger, verbose = !logger, onEvent } = options;
+    const log = createRunLog(verbose, logger, registrySecrets(options.registry));
+    const emit = (event: InstallEvent): void => emitEvent(onEvent, event, log);
+    const checks: InstalledCheck[] = [];
+
+    // Final result of a dependency given its installed state and, if it was pending, its install result
+    const finalResult = (dep: Dependency, check: InstalledCheck, result?: InstallResult): InstallResult => {
+        if (check.satisfied) {
+            return {
+                name: dep.name,
+                success: true,
+                status: 'already-satisfied',
+                message: `${dep.name}@${check.version} is already installed`,
+                version: check.version
+            };
+        }
+        return result!.success && check.version !== undefined
+            ? { ...result!, status: 'upgraded', previousVersion: check.version }
+            : result!;
+    };
+
+    emit({ type: 'run-start', dependencies: dependencies.map(dep => dep.name) });
+
+    // Locked from the checks to the end of the install, so a waiting process sees what this run installed.
+    // A missing target is left to the install, which reports it.
+    const cwd = resolveTarget(options.cwd);
+    let lock: InstallLock | undefined;
+    const lockable = options.lock && (options.managed
+        ? await initPluginDirectory(cwd).then(() => true, () => false)
+        : await isDirectory(cwd));
+    if (options.lock && lockable) {
+        const deadline = options.timeoutMs === undefined ? undefined : Date.now() + options.timeoutMs;
+        const locking = await lockTarget(cwd, options.lock, options.signal, deadline, log);
+        if (!('lock' in locking)) {
+            const { status, error, timedOut } = locking;
+            const details = dependencies.map((dep): InstallResult =>
+                ({ name: dep.name, success: false, status, message: error.message, ...(timedOut && { timedOut }), error }));
+            details.forEach(detail => emit({ type: 'dependency-end', name: detail.name, result: detail }));
+            const result: InstallationResult = { success: false, details, logs: log.lines.join('\n'), logsArray: log.lines };
+            emit({ type: 'run-end', result });
+            return result;
+        }
+        lock = locking.lock;
+    }
+
+    for (const dep of dependencies) {
+        // Conditions are left to installDependencies, which reports dependencies that do not apply
+        const applies = dep.when === undefined || (validateCondition(dep.when) === null && checkCondition(dep.when) === null);
+        const check: InstalledCheck = applies ? await checkInstalled(dep, cwd) : { satisfied: false };
+        if (check.satisfied) {
+            log.info(`already satisfied: ${dep.name}@${check.version}`, { dependency: dep.name, version: check.version });
+            emit({ type: 'dependency-end', name: dep.name, result: finalResult(dep, check) });
+        }
+        checks.push(check);
+    }
+
+    // The inner run only covers pending dependencies: its run events are replaced by
+    // ours and its dependency-end events get the final status
+    const pending = dependencies.filter((_, index) => !checks[index].satisfied);
+    // What a pending dependency depends on is satisfied already unless it is pending too
+    const pendingNames = new Set(pending.map(dep => dep.name));
+    const satisfiedNames = new Set(dependencies.filter(dep => !pendingNames.has(dep.name)).map(dep => dep.name));
+    const inner = pending.map(dep => Array.isArray(dep.dependsOn)
+        ? { ...dep, dependsOn: dep.dependsOn.filter(name => !satisfiedNames.has(name)) }
+        : dep);
+    const pendingChecks = new Map(pending.map(dep => [dep.name, checks[dependencies.indexOf(dep)]]));
+    const installation = await installDependencies({
+        ...options,
+        lock: undefined,
+        dependencies: inner,
+        onEvent: onEvent && (event => {
+            if (event.type === 'dependency-end') {
+                const dep = pending.find(candidate => candidate.name === event.name)!;
+                onEvent({ ...event, result: finalResult(dep, pendingChecks.get(event.name)!, event.result) });
+            } else if (event.type !== 'run-start' && event.type !== 'run-end') {
+                onEvent(event);
+            }
+        })
+    });
+    await unlockTarget(lock, log);
+    const installed = [...installation.details];
+
+    const details = dependencies.map((dep, index): InstallResult =>
+        finalResult(dep, checks[index], checks[index].satisfied ? undefined : installed.shift()));
+    log.lines.push(...installation.logsArray);
+
+    const result: InstallationResult = {
+        ...installation,
+        success: details.every((detail, index) => detail.success || dependencies[index].optional) && (installation.audit?.passed ?? true),
+        details,
+        logs: log.lines.join('\n'),
+        logsArray: log.lines
     };
+    emit({ type: 'run-end', result });
+    return result;
 }
@@ -0,0 +1,108 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { parseVersion, satisfies } from './semver.js';
+import { readInstalledPackage } from './resolve.js';
+
+/**
+ * Interface for what an installed package is pinned to
+ */
+export interface IntegrityPin {
+    integrity?: string; // sha512 SRI of the package tarball, e.g. 'sha512-...=='
+    expectedVersion?: string; // exact version the install must resolve to
+}
+
+// A sha512 digest is 64 bytes, 88 base64 characters with its padding
+const SHA512_SRI_REGEX = /^sha512-[A-Za-z0-9+/]{86}==$/;
+
+// Lockfiles recording what npm installed: the hidden one in node_modules first
+const LOCKFILES = ['node_modules/.package-lock.json', 'package-lock.json', 'npm-shrinkwrap.json'];
+
+/**
+ * Checks the pin of a dependency before anything is installed. Returns the
+ * reason it is invalid, or null.
+ */
+export function validatePin(pin: IntegrityPin, range?: string): string | null {
+    if (pin.integrity !== undefined && (typeof pin.integrity !== 'string' || !SHA512_SRI_REGEX.test(pin.integrity))) {
+        return `integrity must be a sha512 SRI string (sha512-<base64>), got ${JSON.stringify(String(pin.integrity))}`;
+    }
+    if (pin.expectedVersion !== undefined) {
+        if (typeof pin.expectedVersion !== 'string' || parseVersion(pin.expectedVersion) === null) {
+            return `expectedVersion must be an exact version, got ${JSON.stringify(String(pin.expectedVersion))}`;
+        }
+        if (range !== undefined && !satisfies(pin.expectedVersion, range)) {
+            return `expectedVersion ${pin.expectedVersion} does not satisfy version ${range}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether a recorded SRI string, which may list several hashes, contains the expected one.
+ */
+function matchesIntegrity(recorded: string, expected: string): boolean {
+    return recorded.split(/\s+/).includes(expected);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads the entry of a top-level package from an npm lockfile, v1 to v3.
+ */
+async function readLockfileEntry(cwd: string, lockfile: string, name: string): Promise<Record<string, unknown> | null> {
+    let contents: unknown;
+    try {
+        contents = JSON.parse(await readFile(join(cwd, lockfile), 'utf8'));
+    } catch {
+        return null;
+    }
+    if (!isRecord(contents)) return null;
+    const { packages, dependencies } = contents;
+    const entry = (isRecord(packages) ? packages[`node_modules/${name}`] : undefined) ??
+        (isRecord(dependencies) ? dependencies[name] : undefined);
+    return isRecord(entry) ? entry : null;
+}
+
+/**
+ * Checks an installed package against its pin: the version and integrity npm
+ * recorded in its lockfiles, and the version and `_integrity` of its installed
+ * package.json. Returns every mismatch. A pinned integrity that nothing records
+ * is a mismatch too, so an unverifiable package never passes.
+ */
+export async function verifyPin(name: string, pin: IntegrityPin, cwd: string): Promise<string[]> {
+    const installed = await readInstalledPackage(name, cwd);
+    if (!installed) {
+        return [`${name} is not installed in ${join(cwd, 'node_modules')}`];
+    }
+
+    const mismatches: string[] = [];
+    const recorded: { where: string; version?: string; integrity?: string }[] = [
+        {
+            where: 'node_modules',
+            version: installed.version,
+            ...(typeof installed.manifest._integrity === 'string' && { integrity: installed.manifest._integrity })
+        }
+    ];
+    for (const lockfile of LOCKFILES) {
+        const entry = await readLockfileEntry(cwd, lockfile, name);
+        if (entry) {
+            recorded.push({
+                where: lockfile,
+                ...(typeof entry.version === 'string' && { version: entry.version }),
+                ...(typeof entry.integrity === 'string' && { integrity: entry.integrity })
+            });
+        }
+    }
+
+    for (const { where, version, integrity } of recorded) {
+        if (pin.expectedVersion !== undefined && typeof version === 'string' && version !== pin.expectedVersion) {
+            mismatches.push(`${where} has ${name}@${version}, expected ${pin.expectedVersion}`);
+        }
+        if (pin.integrity !== undefined && typeof integrity === 'string' && !matchesIntegrity(integrity, pin.integrity)) {
+            mismatches.push(`${where} records integrity ${integrity} for ${name}, expected ${pin.integrity}`);
+        }
+    }
+    if (pin.integrity !== undefined && !recorded.some(({ integrity }) => typeof integrity === 'string')) {
+        mismatches.push(`no integrity is recorded for ${name} in the lockfiles or its package metadata`);
+    }
+    return mismatches;
+}
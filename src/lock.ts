@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { link, open, readFile, rename, rm, stat, utimes } from 'fs/promises';
+import { hostname } from 'os';
+import { join } from 'path';
+
+/**
+ * What to do when another run holds the lock: wait for it, fail at once, or skip the run
+ */
+export type LockConflict = 'wait' | 'fail' | 'skip';
+
+/**
+ * Interface for the lock of an install directory
+ */
+export interface LockOptions {
+    onLocked?: LockConflict; // defaults to 'wait'
+    waitTimeoutMs?: number; // how long 'wait' waits before failing, defaults to 5 minutes
+    staleMs?: number; // a lock not refreshed for this long was abandoned, defaults to 30 seconds
+}
+
+/**
+ * Interface for the owner of a lock, as written in the lock file
+ */
+export interface LockHolder {
+    id: string;
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+}
+
+/**
+ * Interface for a held lock
+ */
+export interface InstallLock {
+    path: string;
+    release(): Promise<void>;
+}
+
+/**
+ * Outcome of an attempt to lock a directory
+ */
+export type LockAttempt =
+    | { acquired: true; lock: InstallLock }
+    | { acquired: false; holder: LockHolder | null; message: string; timedOut?: boolean }; // timedOut when the deadline ran out
+
+// Lock file created in the install directory
+export const LOCK_FILE = '.dynamic-installer.lock';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_STALE_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Whether a process is running. Only meaningful on the host that started it.
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Reads the lock file. Returns null when it no longer exists; its holder is
+ * null while the owner has not finished writing it.
+ */
+async function readLock(path: string): Promise<{ holder: LockHolder | null; mtimeMs: number } | null> {
+    try {
+        const { mtimeMs } = await stat(path);
+        let holder: LockHolder | null = null;
+        try {
+            holder = JSON.parse(await readFile(path, 'utf8'));
+        } catch {
+            // Being written, or left half-written by a crash: only its age tells
+        }
+        return { holder, mtimeMs };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * A lock is stale when its owner stopped refreshing it, or when the owner ran on
+ * this host and is gone.
+ */
+function isStale(lock: { holder: LockHolder | null; mtimeMs: number }, staleMs: number): boolean {
+    if (Date.now() - lock.mtimeMs > staleMs) return true;
+    return lock.holder !== null && lock.holder.hostname === hostname() && !isRunning(lock.holder.pid);
+}
+
+/**
+ * Removes a lock judged stale. It is moved aside first, which only one process
+ * can do: if another run removed it and locked the directory since, the lock
+ * moved aside is that run's, and it is put back unless yet another run has
+ * locked the directory in the meantime.
+ */
+async function removeStaleLock(path: string, stale: { holder: LockHolder | null; mtimeMs: number }): Promise<void> {
+    const aside = `${path}.${randomUUID()}.stale`;
+    try {
+        await rename(path, aside);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return; // removed meanwhile
+        throw error;
+    }
+    try {
+        const moved = await readLock(aside);
+        if (moved && (moved.mtimeMs !== stale.mtimeMs || moved.holder?.id !== stale.holder?.id)) {
+            await link(aside, path).catch(() => undefined);
+        }
+    } finally {
+        await rm(aside, { force: true });
+    }
+}
+
+function describeHolder(holder: LockHolder | null): string {
+    return holder ? `process ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt}` : 'another process';
+}
+
+/**
+ * Keeps the lock file fresh while it is held, and removes it on release unless
+ * another run has taken it over in the meantime.
+ */
+function holdLock(path: string, holder: LockHolder, staleMs: number): InstallLock {
+    const heartbeat = setInterval(() => {
+        const now = new Date();
+        utimes(path, now, now).catch(() => undefined);
+    }, Math.max(staleMs / 3, 10));
+    heartbeat.unref();
+    return {
+        path,
+        async release(): Promise<void> {
+            clearInterval(heartbeat);
+            const current = await readLock(path);
+            if (current?.holder?.id === holder.id) {
+                await rm(path, { force: true });
+            }
+        }
+    };
+}
+
+/**
+ * Takes the advisory lock of an install directory by creating its lock file
+ * exclusively. Stale locks are removed. When the directory is locked, waits
+ * for it, or gives up at once, depending on `onLocked`; waiting also stops at
+ * `deadline` (epoch ms). Throws when the lock file cannot be created for
+ * another reason.
+ */
+export async function acquireLock(dir: string, options: LockOptions = {}, signal?: AbortSignal, deadline?: number): Promise<LockAttempt> {
+    const { onLocked = 'wait', waitTimeoutMs = DEFAULT_WAIT_TIMEOUT_MS, staleMs = DEFAULT_STALE_MS } = options;
+    const path = join(dir, LOCK_FILE);
+    const holder: LockHolder = { id: randomUUID(), pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() };
+    const started = Date.now();
+
+    for (;;) {
+        try {
+            const handle = await open(path, 'wx', 0o644);
+            try {
+                await handle.writeFile(JSON.stringify(holder));
+            } finally {
+                await handle.close();
+            }
+            return { acquired: true, lock: holdLock(path, holder, staleMs) };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+
+        const current = await readLock(path);
+        if (current === null) continue; // released meanwhile
+        if (isStale(current, staleMs)) {
+            await removeStaleLock(path, current);
+            continue;
+        }
+
+        const locked = `${dir} is locked by ${describeHolder(current.holder)}`;
+        if (onLocked !== 'wait') {
+            return { acquired: false, holder: current.holder, message: locked };
+        }
+        if (signal?.aborted) {
+            return { acquired: false, holder: current.holder, message: `${locked}; stopped waiting: aborted` };
+        }
+        if (deadline !== undefined && Date.now() >= deadline && deadline < started + waitTimeoutMs) {
+            return { acquired: false, holder: current.holder, message: `${locked}; stopped waiting: the run ran out of time`, timedOut: true };
+        }
+        if (Date.now() - started >= waitTimeoutMs) {
+            return { acquired: false, holder: current.holder, message: `${locked}; gave up after waiting ${waitTimeoutMs}ms` };
+        }
+        const until = Math.min(started + waitTimeoutMs, deadline ?? Infinity);
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, Math.min(POLL_INTERVAL_MS, until - Date.now()))));
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Log levels, from the most to the least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Interface for a structured logger (console, pino, winston...): one method per level
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Interface for the log of a run: every entry is kept in `lines`, printed when
+ * verbose, and forwarded with its fields to the logger if there is one.
+ * Secrets are masked everywhere, fields included.
+ */
+export interface RunLog extends Logger {
+    lines: string[];
+    redact(text: string): string; // masks the secrets of the run
+}
+
+// Replaces secrets in log entries
+export const REDACTED = '***';
+
+/**
+ * Creates the log of a run.
+ */
+export function createRunLog(verbose: boolean, logger?: Logger, secrets: string[] = []): RunLog {
+    const lines: string[] = [];
+    const redact = (text: string): string =>
+        secrets.reduce((masked, secret) => masked.split(secret).join(REDACTED), text);
+    const redactValue = (value: unknown): unknown => {
+        if (typeof value === 'string') return redact(value);
+        if (Array.isArray(value)) return value.map(redactValue);
+        if (typeof value === 'object' && value !== null) {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)]));
+        }
+        return value;
+    };
+    const write = (level: LogLevel) => (rawMessage: string, rawFields?: LogFields): void => {
+        const message = redact(rawMessage);
+        const fields = secrets.length > 0 && rawFields ? redactValue(rawFields) as LogFields : rawFields;
+        lines.push(message);
+        if (verbose) {
+            console.log(message);
+        }
+        logger?.[level](message, fields);
+    };
+    return {
+        lines,
+        redact,
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error')
+    };
+}
@@ -0,0 +1,121 @@
+import { readDataFile } from './data-file.js';
+import type { RetryOptions } from './execute.js';
+import type { PackageManagerName } from './package-managers.js';
+import type { InstallPolicy } from './policy.js';
+import type { InstallFlags } from './flags.js';
+import type { RegistryConfig } from './registry.js';
+import type { LockOptions } from './lock.js';
+import type { Dependency, InstallOptions, InstallStrategy, FailureStrategy, AtomicOptions, AuditOptions } from './index.js';
+
+/**
+ * Interface for the install settings a manifest or a profile can set
+ */
+export interface ManifestSettings {
+    globalOptions?: string[];
+    flags?: InstallFlags;
+    dependencies?: Dependency[];
+    cwd?: string; // relative to the manifest file
+    managed?: boolean;
+    packageManager?: PackageManagerName | 'auto';
+    strategy?: InstallStrategy;
+    onFailure?: FailureStrategy;
+    atomic?: boolean | AtomicOptions;
+    timeoutMs?: number;
+    retry?: RetryOptions;
+    policy?: InstallPolicy | string; // a path is relative to the manifest file
+    registry?: RegistryConfig;
+    lock?: boolean | LockOptions;
+    installPeers?: boolean | 'report';
+    audit?: boolean | AuditOptions;
+}
+
+/**
+ * Interface for a declarative manifest: default settings plus named profiles
+ * ("dev", "ci", "plugins"...) layered on top of them
+ */
+export interface Manifest extends ManifestSettings {
+    profiles?: Record<string, ManifestSettings>;
+}
+
+/**
+ * Error thrown when a manifest cannot be read, parsed or resolved
+ */
+export class ManifestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ManifestError';
+    }
+}
+
+// Files looked up, in order, when no manifest path is given
+export const DEFAULT_MANIFEST_FILES = ['dynamic-installer.json', 'dynamic-installer.yaml', 'dynamic-installer.yml'];
+
+function checkSettings(settings: unknown, where: string): ManifestSettings {
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        throw new ManifestError(`Invalid manifest: ${where} must be an object`);
+    }
+    const { globalOptions, dependencies } = settings as ManifestSettings;
+    if (globalOptions !== undefined &&
+        !(Array.isArray(globalOptions) && globalOptions.every(option => typeof option === 'string'))) {
+        throw new ManifestError(`Invalid manifest: ${where}.globalOptions must be an array of strings`);
+    }
+    if (dependencies !== undefined) {
+        if (!Array.isArray(dependencies)) {
+            throw new ManifestError(`Invalid manifest: ${where}.dependencies must be an array`);
+        }
+        dependencies.forEach((dep, index) => {
+            if (typeof dep !== 'object' || dep === null || typeof dep.name !== 'string') {
+                throw new ManifestError(`Invalid manifest: ${where}.dependencies[${index}] must be an object with a name`);
+            }
+        });
+    }
+    return settings as ManifestSettings;
+}
+
+/**
+ * Checks the structure of a parsed manifest. Names, versions and options are
+ * validated later by the installer, like any other dependency.
+ */
+export function validateManifest(manifest: unknown): Manifest {
+    const checked = checkSettings(manifest, 'the manifest') as Manifest;
+    if (checked.profiles !== undefined) {
+        checkSettings(checked.profiles, 'profiles');
+        for (const [name, profile] of Object.entries(checked.profiles)) {
+            checkSettings(profile, `profiles.${name}`);
+        }
+    }
+    return checked;
+}
+
+/**
+ * Reads a JSON or YAML manifest (by file extension).
+ */
+export async function loadManifest(path: string): Promise<Manifest> {
+    let parsed: unknown;
+    try {
+        parsed = await readDataFile(path);
+    } catch (error) {
+        throw new ManifestError((error as Error).message);
+    }
+    return validateManifest(parsed);
+}
+
+/**
+ * Turns a manifest into installer options. A profile replaces the top-level
+ * settings it sets, except `dependencies`, which are appended to the top-level ones.
+ */
+export function resolveProfile(manifest: Manifest, profile?: string): InstallOptions {
+    const { profiles = {}, dependencies = [], ...defaults } = manifest;
+    let selected: ManifestSettings = {};
+    if (profile !== undefined) {
+        if (!Object.prototype.hasOwnProperty.call(profiles, profile)) {
+            const available = Object.keys(profiles);
+            throw new ManifestError(`Unknown profile: ${profile}` +
+                (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (the manifest has no profiles)'));
+        }
+        selected = profiles[profile];
+    }
+
+    const { dependencies: profileDependencies = [], ...overrides } = selected;
+    return { ...defaults, ...overrides, dependencies: [...dependencies, ...profileDependencies] };
+}
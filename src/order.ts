@@ -0,0 +1,97 @@
+/**
+ * Interface for what ordering needs to know about a dependency
+ */
+export interface OrderedDependency {
+    name: string;
+    dependsOn?: string[]; // names of other dependencies of the same run
+}
+
+/**
+ * Interface for the order dependencies run in
+ */
+export interface DependencyOrder {
+    levels: number[][]; // indices by level: each level only depends on earlier ones
+    cycles: Map<number, string[]>; // dependencies caught in a cycle, with the cycle as names
+}
+
+/**
+ * Checks the `dependsOn` of a dependency against the names of the run. Returns
+ * the reason it is invalid, or null.
+ */
+export function validateDependsOn(dependsOn: unknown, names: Set<string>): string | null {
+    if (dependsOn === undefined) return null;
+    if (!Array.isArray(dependsOn) || !dependsOn.every(name => typeof name === 'string')) {
+        return 'dependsOn must be an array of names';
+    }
+    const unknown = dependsOn.filter(name => !names.has(name));
+    return unknown.length > 0 ? `${unknown.join(', ')} ${unknown.length > 1 ? 'are' : 'is'} not a dependency of this run` : null;
+}
+
+/**
+ * Orders the given dependencies (indices into `dependencies`) so that each runs
+ * after those it depends on, keeping array order otherwise. Dependencies that
+ * depend on each other, directly or not, are left out and reported as cycles.
+ * Names that are not among the given indices are ignored.
+ */
+export function orderDependencies(dependencies: readonly OrderedDependency[], indices: number[]): DependencyOrder {
+    const edges = new Map(indices.map(index => {
+        const dependsOn = dependencies[index].dependsOn ?? [];
+        return [index, indices.filter(other => dependsOn.includes(dependencies[other].name))];
+    }));
+
+    // Strongly connected components (Tarjan): any with several members, or a member depending on itself, is a cycle
+    const cycles = new Map<number, string[]>();
+    const order = new Map<number, number>();
+    const low = new Map<number, number>();
+    const stack: number[] = [];
+    const visit = (index: number): void => {
+        order.set(index, order.size);
+        low.set(index, order.get(index)!);
+        stack.push(index);
+        for (const next of edges.get(index)!) {
+            if (!order.has(next)) {
+                visit(next);
+                low.set(index, Math.min(low.get(index)!, low.get(next)!));
+            } else if (stack.includes(next)) {
+                low.set(index, Math.min(low.get(index)!, order.get(next)!));
+            }
+        }
+        if (low.get(index) !== order.get(index)) return;
+        const component = stack.splice(stack.indexOf(index));
+        if (component.length > 1 || edges.get(index)!.includes(index)) {
+            const path = describeCycle(Math.min(...component), new Set(component), edges);
+            component.forEach(member => cycles.set(member, path.map(step => dependencies[step].name)));
+        }
+    };
+    indices.forEach(index => order.has(index) || visit(index));
+
+    // Levels over what is left: a dependency only waits for those outside cycles
+    const levels: number[][] = [];
+    const placed = new Set<number>();
+    let remaining = indices.filter(index => !cycles.has(index));
+    while (remaining.length > 0) {
+        const level = remaining.filter(index => edges.get(index)!.every(other => placed.has(other) || cycles.has(other)));
+        level.forEach(index => placed.add(index));
+        remaining = remaining.filter(index => !placed.has(index));
+        levels.push(level);
+    }
+    return { levels, cycles };
+}
+
+/**
+ * Finds a path from `start` back to itself within a strongly connected component.
+ */
+function describeCycle(start: number, component: Set<number>, edges: Map<number, number[]>): number[] {
+    const seen = new Set<number>();
+    const walk = (index: number, path: number[]): number[] | null => {
+        for (const next of edges.get(index)!.filter(other => component.has(other))) {
+            if (next === start) return [...path, start];
+            if (seen.has(next)) continue;
+            seen.add(next);
+            const found = walk(next, [...path, next]);
+            if (found) return found;
+        }
+        return null;
+    };
+    return walk(start, [start])!;
+}
@@ -0,0 +1,235 @@
+import { readFile, access } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Supported package managers
+ */
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * Value accepted by the `packageManager` option: a manager, 'auto' to detect it,
+ * or a custom adapter
+ */
+export type PackageManagerOption = PackageManagerName | 'auto' | PackageManagerAdapter;
+
+/**
+ * Interface for a package-manager adapter. Adapters receive npm-style option
+ * tokens (e.g. `--save-dev`) and translate them into the tool's own syntax, so
+ * callers can describe dependencies once for every manager.
+ */
+export interface PackageManagerAdapter {
+    readonly name: string;
+    readonly command: string;
+    readonly npmConfig?: boolean; // reads npm_config_* variables and the user npmrc, where the registries of a run go; defaults to true
+    /** Builds the argv (without the executable) installing the given specs */
+    installArgs(specs: string[], options: string[]): string[];
+    /** Builds the argv bringing node_modules in line with package.json and the lockfile */
+    syncArgs(): string[];
+    /** Builds the argv removing the given packages */
+    uninstallArgs?(names: string[], options?: string[]): string[];
+    /** Builds the argv updating the given packages to the newest versions their ranges allow */
+    updateArgs?(names: string[], options?: string[]): string[];
+    /** Builds the argv installing exactly what the lockfile records, failing if it is out of date */
+    cleanInstallArgs?(options?: string[]): string[];
+    /** Builds the argv printing the JSON audit report of the installed packages */
+    auditArgs?(): string[];
+}
+
+/**
+ * Interface for the argv prefix of each operation of a built-in adapter
+ */
+interface AdapterCommands {
+    install: string[];
+    uninstall: string[];
+    update?: string[]; // no updateArgs without it
+    cleanInstall: string[];
+    audit?: string[]; // no auditArgs without it
+}
+
+/**
+ * Creates an adapter from the subcommands of each operation and a table mapping
+ * npm option tokens to the manager's equivalent. Tokens missing from the table are passed through.
+ */
+function createAdapter(
+    name: PackageManagerName,
+    commands: AdapterCommands,
+    flagMap: Record<string, string>,
+    npmConfig = true
+): PackageManagerAdapter {
+    const translate = (token: string): string => flagMap[token] ?? token;
+    const { update, audit } = commands;
+    return {
+        name,
+        command: name,
+        ...(!npmConfig && { npmConfig }),
+        installArgs(specs: string[], options: string[]): string[] {
+            return [...commands.install, ...specs, ...options.map(translate)];
+        },
+        syncArgs(): string[] {
+            return ['install'];
+        },
+        uninstallArgs(names: string[], options: string[] = []): string[] {
+            return [...commands.uninstall, ...names, ...options.map(translate)];
+        },
+        ...(update && {
+            updateArgs(names: string[], options: string[] = []): string[] {
+                return [...update, ...names, ...options.map(translate)];
+            }
+        }),
+        cleanInstallArgs(options: string[] = []): string[] {
+            return [...commands.cleanInstall, ...options.map(translate)];
+        },
+        ...(audit && {
+            auditArgs(): string[] {
+                return [...audit];
+            }
+        })
+    };
+}
+
+// pnpm, Yarn and Bun share their subcommands, except Yarn 1's `upgrade`
+const ADD_REMOVE_COMMANDS: AdapterCommands = {
+    install: ['add'],
+    uninstall: ['remove'],
+    update: ['update'],
+    cleanInstall: ['install', '--frozen-lockfile'],
+    audit: ['audit', '--json']
+};
+
+const YARN_FLAGS: Record<string, string> = {
+    '--save-dev': '--dev',
+    '-D': '--dev',
+    '--save-optional': '--optional',
+    '-O': '--optional',
+    '--save-exact': '--exact',
+    '-E': '--exact',
+    '--save-peer': '--peer'
+};
+
+const ADAPTERS: Record<PackageManagerName, PackageManagerAdapter> = {
+    npm: createAdapter('npm', {
+        install: ['install'],
+        uninstall: ['uninstall'],
+        update: ['update'],
+        cleanInstall: ['ci'],
+        audit: ['audit', '--json']
+    }, {}),
+    pnpm: createAdapter('pnpm', ADD_REMOVE_COMMANDS, {
+        '--save-dev': '-D',
+        '--save-optional': '-O',
+        '--save-exact': '-E',
+        '--global': '-g'
+    }),
+    yarn: createAdapter('yarn', { ...ADD_REMOVE_COMMANDS, update: ['upgrade'] }, YARN_FLAGS),
+    // Bun does not read npm_config_userconfig
+    bun: createAdapter('bun', ADD_REMOVE_COMMANDS, {
+        '--save-dev': '--dev',
+        '-D': '--dev',
+        '--save-optional': '--optional',
+        '-O': '--optional',
+        '--save-exact': '--exact',
+        '-E': '--exact',
+        '--save-peer': '--peer',
+        '-g': '--global'
+    }, false)
+};
+
+// Yarn 2+ (Berry) ignores npm's configuration and has no `upgrade`: `up --recursive`
+// resolves the packages again within their ranges. Its audit, `yarn npm audit`, prints
+// a report of its own that is not supported.
+const YARN_BERRY = createAdapter('yarn', {
+    ...ADD_REMOVE_COMMANDS,
+    update: ['up', '--recursive'],
+    audit: undefined
+}, YARN_FLAGS, false);
+
+// Lockfiles in detection priority order
+export const LOCKFILES: [string, PackageManagerName][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm']
+];
+
+function isPackageManagerName(name: string): name is PackageManagerName {
+    return Object.prototype.hasOwnProperty.call(ADAPTERS, name);
+}
+
+/**
+ * Returns the built-in adapter for a package manager.
+ */
+export function getPackageManager(name: PackageManagerName): PackageManagerAdapter {
+    if (!isPackageManagerName(name)) {
+        throw new Error(`Unsupported package manager: ${name}`);
+    }
+    return ADAPTERS[name];
+}
+
+async function fileExists(path: string): Promise<boolean> {
+    try {
+        await access(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The `packageManager` field of a project's package.json, e.g. 'yarn@4.1.0'.
+ */
+async function readPackageManagerField(cwd: string): Promise<string | undefined> {
+    try {
+        const manifest = JSON.parse(await readFile(join(cwd, 'package.json'), 'utf8'));
+        return typeof manifest.packageManager === 'string' ? manifest.packageManager : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Detects the package manager of a project: the `packageManager` field of its
+ * package.json wins, then the lockfiles present. Falls back to npm.
+ */
+export async function detectPackageManager(cwd: string): Promise<PackageManagerName> {
+    const name = (await readPackageManagerField(cwd))?.split('@')[0];
+    if (name !== undefined && isPackageManagerName(name)) {
+        return name;
+    }
+
+    for (const [lockfile, name] of LOCKFILES) {
+        if (await fileExists(join(cwd, lockfile))) {
+            return name;
+        }
+    }
+    return 'npm';
+}
+
+/**
+ * Whether a project uses Yarn 2 or later: its `packageManager` field names
+ * one, or without the field, it has a .yarnrc.yml.
+ */
+export async function isYarnBerry(cwd: string): Promise<boolean> {
+    const field = await readPackageManagerField(cwd);
+    if (field?.startsWith('yarn@')) {
+        return parseInt(field.slice('yarn@'.length), 10) >= 2;
+    }
+    return fileExists(join(cwd, '.yarnrc.yml'));
+}
+
+/**
+ * Resolves the `packageManager` option into an adapter. Yarn resolves to the
+ * Yarn 2+ adapter in projects using it.
+ */
+export async function resolvePackageManager(
+    option: PackageManagerOption,
+    cwd: string
+): Promise<PackageManagerAdapter> {
+    if (typeof option === 'object') {
+        return option;
+    }
+    const name = option === 'auto' ? await detectPackageManager(cwd) : option;
+    const adapter = getPackageManager(name);
+    return name === 'yarn' && await isYarnBerry(cwd) ? YARN_BERRY : adapter;
+}
@@ -0,0 +1,62 @@
+import { readInstalledPackage } from './resolve.js';
+import { parseRange, satisfies } from './semver.js';
+import { validatePackageName } from './spec.js';
+
+/**
+ * Interface for a peer dependency of an installed package and how it was resolved
+ */
+export interface PeerDependencyResult {
+    name: string;
+    range: string; // as declared in peerDependencies
+    optional: boolean; // marked optional in peerDependenciesMeta
+    status: 'satisfied' | 'installed' | 'missing-optional' | 'unresolved';
+    version?: string; // installed version, when there is one
+    message?: string; // why the peer is unresolved
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads the peer dependencies of a package installed in `cwd` and checks each
+ * against what is installed there. Peers that are missing or out of range are
+ * 'unresolved', except optional ones that are missing. Ranges that are not
+ * semver (workspace:, URLs...) are satisfied by any installed version.
+ */
+export async function checkPeers(name: string, cwd: string): Promise<PeerDependencyResult[]> {
+    const installed = await readInstalledPackage(name, cwd);
+    const { peerDependencies, peerDependenciesMeta } = installed?.manifest ?? {};
+    if (!isRecord(peerDependencies)) {
+        return [];
+    }
+    const meta = isRecord(peerDependenciesMeta) ? peerDependenciesMeta : {};
+
+    const peers: PeerDependencyResult[] = [];
+    for (const [peer, range] of Object.entries<unknown>(peerDependencies)) {
+        if (typeof range !== 'string') continue;
+        const peerMeta = meta[peer];
+        const optional = isRecord(peerMeta) && Boolean(peerMeta.optional);
+        // The name comes from a downloaded manifest: only read a path built from a valid one
+        const present = validatePackageName(peer) === null ? await readInstalledPackage(peer, cwd) : null;
+        if (!present) {
+            peers.push({
+                name: peer,
+                range,
+                optional,
+                status: optional ? 'missing-optional' : 'unresolved',
+                ...(!optional && { message: `${peer}@${range} is not installed` })
+            });
+        } else if (parseRange(range) !== null && !satisfies(present.version, range)) {
+            peers.push({
+                name: peer,
+                range,
+                optional,
+                status: 'unresolved',
+                version: present.version,
+                message: `${peer}@${present.version} is installed, ${name} needs ${range}`
+            });
+        } else {
+            peers.push({ name: peer, range, optional, status: 'satisfied', version: present.version });
+        }
+    }
+    return peers;
+}
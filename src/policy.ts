@@ -0,0 +1,153 @@
+import { readDataFile } from './data-file.js';
+import type { PackageSpec, DependencySource } from './spec.js';
+
+/**
+ * Where a dependency comes from, as seen by a policy: 'registry' for a plain name
+ * or a version range, otherwise the type of its `source`
+ */
+export type PolicySource = 'registry' | DependencySource['type'];
+
+/**
+ * Interface for the rules every dependency is checked against before any command
+ * is built. Flags are written npm-style, like `options`.
+ */
+export interface InstallPolicy {
+    allow?: string[]; // name globs such as '@ourorg/*': when set, no other package may be installed
+    deny?: string[]; // name globs that may never be installed, checked before `allow`
+    forbiddenFlags?: string[]; // e.g. '--global', which also covers '-g'
+    mandatoryFlags?: string[]; // added to every command unless already there, e.g. '--ignore-scripts'
+    allowedSources?: PolicySource[]; // when set, other sources are rejected
+}
+
+/**
+ * Policy rule that rejected a dependency
+ */
+export type PolicyRule = 'allow' | 'deny' | 'forbiddenFlags' | 'allowedSources';
+
+/**
+ * Interface for a policy violation: the rule, what it matched, and why
+ */
+export interface PolicyViolation {
+    rule: PolicyRule;
+    value: string; // the offending name pattern, flag or source type
+    message: string;
+}
+
+const POLICY_SOURCES: PolicySource[] = ['registry', 'tag', 'git', 'tarball', 'file', 'alias'];
+
+// npm's single-letter aliases of the flags a policy may name
+const FLAG_ALIASES: Record<string, string> = {
+    '-g': '--global',
+    '-D': '--save-dev',
+    '-P': '--save-prod',
+    '-O': '--save-optional',
+    '-E': '--save-exact',
+    '-B': '--save-bundle',
+    '-S': '--save',
+    '-f': '--force'
+};
+
+/**
+ * Converts a name glob to a regex: `*` matches within a scope or name, `**` matches anything.
+ */
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .split('**')
+        .map(part => part.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '[^/]*'))
+        .join('.*');
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Expands combined short flags (-gE) and maps aliases to their long form,
+ * dropping any `=value`.
+ */
+function canonicalFlags(token: string): string[] {
+    const [flag] = token.split('=', 1);
+    if (/^-[A-Za-z]{2,}$/.test(flag)) {
+        return [...flag.slice(1)].map(letter => FLAG_ALIASES[`-${letter}`] ?? `-${letter}`);
+    }
+    return [FLAG_ALIASES[flag] ?? flag];
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Checks the structure of a policy. Returns the reason it is invalid, or null.
+ */
+export function validatePolicy(policy: unknown): string | null {
+    if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+        return 'policy must be an object';
+    }
+    const checked = policy as Record<string, unknown>;
+    for (const key of ['allow', 'deny', 'forbiddenFlags', 'mandatoryFlags', 'allowedSources']) {
+        if (checked[key] !== undefined && !isStringArray(checked[key])) {
+            return `${key} must be an array of strings`;
+        }
+    }
+    const unknownSource = ((checked.allowedSources ?? []) as string[])
+        .find(source => !POLICY_SOURCES.includes(source as PolicySource));
+    if (unknownSource !== undefined) {
+        return `unknown source type in allowedSources: ${unknownSource} (expected ${POLICY_SOURCES.join(', ')})`;
+    }
+    const forbidden = new Set(((checked.forbiddenFlags ?? []) as string[]).flatMap(canonicalFlags));
+    const conflict = ((checked.mandatoryFlags ?? []) as string[]).find(flag => canonicalFlags(flag).some(f => forbidden.has(f)));
+    if (conflict !== undefined) {
+        return `mandatory flag ${conflict} is also forbidden`;
+    }
+    return null;
+}
+
+/**
+ * Reads a policy from a JSON or YAML file.
+ */
+export async function loadPolicy(path: string): Promise<InstallPolicy> {
+    const policy = await readDataFile(path);
+    const reason = validatePolicy(policy);
+    if (reason) {
+        throw new Error(`Invalid policy in ${path}: ${reason}`);
+    }
+    return policy as InstallPolicy;
+}
+
+/**
+ * Checks a dependency and its effective options against a policy and returns
+ * every violation. Aliases are checked under both names.
+ */
+export function checkPolicy(spec: PackageSpec, options: string[], policy: InstallPolicy): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const names = spec.source?.type === 'alias' ? [spec.name, spec.source.package] : [spec.name];
+
+    for (const name of names) {
+        const denied = policy.deny?.find(glob => globToRegExp(glob).test(name));
+        if (denied !== undefined) {
+            violations.push({ rule: 'deny', value: denied, message: `${name} is denied by policy pattern ${denied}` });
+        } else if (policy.allow && !policy.allow.some(glob => globToRegExp(glob).test(name))) {
+            violations.push({ rule: 'allow', value: name, message: `${name} does not match any allowed pattern` });
+        }
+    }
+
+    const source: PolicySource = spec.source?.type ?? 'registry';
+    if (policy.allowedSources && !policy.allowedSources.includes(source)) {
+        violations.push({ rule: 'allowedSources', value: source, message: `${source} sources are not allowed by policy` });
+    }
+
+    const forbidden = new Set((policy.forbiddenFlags ?? []).flatMap(canonicalFlags));
+    for (const option of options) {
+        if (canonicalFlags(option).some(flag => forbidden.has(flag))) {
+            violations.push({ rule: 'forbiddenFlags', value: option, message: `${option} is forbidden by policy` });
+        }
+    }
+    return violations;
+}
+
+/**
+ * Appends the mandatory flags of a policy that the options do not already contain.
+ */
+export function applyMandatoryFlags(options: string[], policy: InstallPolicy): string[] {
+    const present = new Set(options.flatMap(canonicalFlags));
+    const missing = (policy.mandatoryFlags ?? []).filter(flag => !canonicalFlags(flag).every(f => present.has(f)));
+    return [...options, ...missing];
+}
@@ -0,0 +1,155 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Credentials for a registry: a bearer token, or a username and password
+ */
+export type RegistryCredentials = { token: string } | { username: string; password: string };
+
+/**
+ * Interface for the registries of a run. Applied through npm_config_* variables
+ * and a temporary npmrc that only the package manager of this run sees.
+ */
+export interface RegistryConfig {
+    url?: string | URL; // default registry
+    scopes?: Record<string, string | URL>; // registry per scope, e.g. { '@ourorg': 'https://npm.internal/' }
+    auth?: Record<string, RegistryCredentials>; // credentials per registry URL
+}
+
+/**
+ * Interface for the temporary configuration of a run: environment variables for
+ * the package manager and the cleanup
+ */
+export interface RegistrySession {
+    env: Record<string, string>;
+    npmrc: string; // path of the temporary npmrc
+    cleanup(): Promise<void>;
+}
+
+const SCOPE_REGEX = /^@[a-z0-9][\w.-]*$/i;
+// Prefix of the variables holding credentials, referenced from the npmrc as ${NAME}
+const AUTH_ENV_PREFIX = 'DYNAMIC_INSTALLER_AUTH_';
+
+function parseRegistryUrl(value: unknown, where: string): URL {
+    let url: URL;
+    try {
+        url = new URL(String(value));
+    } catch {
+        throw new Error(`${where} must be an http or https URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`${where} must be an http or https URL`);
+    }
+    if (url.username || url.password) {
+        throw new Error(`${where} must not contain credentials, use auth instead`);
+    }
+    return url;
+}
+
+/**
+ * The npmrc key prefix npm matches credentials with: //host[:port]/path/
+ */
+function nerfDart(url: URL): string {
+    const path = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+    return `//${url.host}${path}`;
+}
+
+/**
+ * Checks a registry configuration. Returns the reason it is invalid, or null.
+ */
+export function validateRegistryConfig(config: RegistryConfig): string | null {
+    try {
+        if (typeof config !== 'object' || config === null) {
+            throw new Error('registry must be an object');
+        }
+        if (config.url !== undefined) {
+            parseRegistryUrl(config.url, 'registry.url');
+        }
+        for (const [scope, url] of Object.entries(config.scopes ?? {})) {
+            if (!SCOPE_REGEX.test(scope)) throw new Error(`invalid scope: ${scope}`);
+            parseRegistryUrl(url, `registry.scopes["${scope}"]`);
+        }
+        for (const [url, credentials] of Object.entries(config.auth ?? {})) {
+            parseRegistryUrl(url, 'registry.auth keys');
+            const valid = typeof credentials === 'object' && credentials !== null && ('token' in credentials
+                ? typeof credentials.token === 'string' && credentials.token !== ''
+                : typeof credentials.username === 'string' && typeof credentials.password === 'string');
+            if (!valid) throw new Error(`credentials for ${url} must be { token } or { username, password }`);
+        }
+    } catch (error) {
+        return (error as Error).message;
+    }
+    return null;
+}
+
+/**
+ * Lists the secret values of a registry configuration, as they may appear in
+ * output: tokens, passwords and their base64 encodings.
+ */
+export function registrySecrets(config?: RegistryConfig): string[] {
+    const secrets: unknown[] = Object.values(config?.auth ?? {}).flatMap(credentials => {
+        if (typeof credentials !== 'object' || credentials === null) return [];
+        return 'token' in credentials
+            ? [credentials.token]
+            : [credentials.password, Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')];
+    });
+    return secrets.filter((secret): secret is string => typeof secret === 'string' && secret !== '');
+}
+
+/**
+ * Writes a temporary npmrc holding the user's own npmrc followed by the
+ * registries of the run, and returns the environment pointing the package
+ * manager at it. The registries are also set as npm_config_* variables, which
+ * outrank the project's .npmrc where the user npmrc does not. Credentials stay
+ * in the environment: the file only references them as ${VARIABLE}. The
+ * configuration must be valid.
+ */
+export async function createRegistrySession(config: RegistryConfig): Promise<RegistrySession> {
+    const env: Record<string, string> = {};
+    const lines: string[] = ['', '# dynamic-installer'];
+    if (config.url !== undefined) {
+        const registry = parseRegistryUrl(config.url, 'registry.url').href;
+        env.npm_config_registry = registry;
+        lines.push(`registry=${registry}`);
+    }
+    for (const [scope, url] of Object.entries(config.scopes ?? {})) {
+        const registry = parseRegistryUrl(url, scope).href;
+        env[`npm_config_${scope}:registry`] = registry;
+        lines.push(`${scope}:registry=${registry}`);
+    }
+    Object.entries(config.auth ?? {}).forEach(([url, credentials], index) => {
+        const variable = `${AUTH_ENV_PREFIX}${index}`;
+        const prefix = nerfDart(parseRegistryUrl(url, 'registry.auth keys'));
+        if ('token' in credentials) {
+            env[variable] = credentials.token;
+            lines.push(`${prefix}:_authToken=\${${variable}}`);
+        } else {
+            env[variable] = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+            lines.push(`${prefix}:_auth=\${${variable}}`);
+        }
+    });
+
+    // Keep what the user configured: only the registries of the run are added
+    const userConfig = process.env.npm_config_userconfig ?? process.env.NPM_CONFIG_USERCONFIG ?? join(homedir(), '.npmrc');
+    let existing = '';
+    try {
+        existing = await readFile(userConfig, 'utf8');
+    } catch {
+        // No user npmrc
+    }
+
+    const dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-npmrc-'));
+    const npmrc = join(dir, '.npmrc');
+    const cleanup = (): Promise<void> => rm(dir, { recursive: true, force: true });
+    try {
+        await writeFile(npmrc, `${existing}${lines.join('\n')}\n`, { mode: 0o600 });
+    } catch (error) {
+        await cleanup();
+        throw error;
+    }
+
+    env.npm_config_userconfig = npmrc;
+    env.NPM_CONFIG_USERCONFIG = npmrc;
+    return { env, npmrc, cleanup };
+}
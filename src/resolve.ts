@@ -0,0 +1,145 @@
+import { readFile, stat } from 'fs/promises';
+import { join, resolve, sep } from 'path';
+import { validatePackageName } from './spec.js';
+import { resolveTarget } from './target.js';
+
+/**
+ * Interface for a package found in a project's node_modules
+ */
+export interface InstalledPackage {
+    name: string;
+    version: string;
+    path: string;
+    manifest: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads the package.json of a dependency installed in `<cwd>/node_modules`.
+ * Returns null when the package is missing or its manifest is unreadable.
+ * The name must already be validated, it is used to build a path.
+ */
+export async function readInstalledPackage(name: string, cwd: string): Promise<InstalledPackage | null> {
+    const path = join(cwd, 'node_modules', name);
+    try {
+        const manifest: unknown = JSON.parse(await readFile(join(path, 'package.json'), 'utf8'));
+        if (!isRecord(manifest) || typeof manifest.name !== 'string' || typeof manifest.version !== 'string') {
+            return null;
+        }
+        return { name: manifest.name, version: manifest.version, path, manifest };
+    } catch {
+        return null;
+    }
+}
+
+// Export conditions matched when loading a package with import()
+const IMPORT_CONDITIONS = ['import', 'node', 'default'];
+// Candidates tried for a path without "exports", as require() would
+const ENTRY_SUFFIXES = ['', '.js', '.cjs', '.mjs', '.json', '/index.js', '/index.cjs', '/index.mjs'];
+
+function resolveExportTarget(target: unknown): string | null {
+    if (typeof target === 'string') return target;
+    if (Array.isArray(target)) {
+        for (const candidate of target) {
+            const resolved = resolveExportTarget(candidate);
+            if (resolved) return resolved;
+        }
+        return null;
+    }
+    if (typeof target === 'object' && target !== null) {
+        for (const [condition, value] of Object.entries(target)) {
+            if (!IMPORT_CONDITIONS.includes(condition)) continue;
+            const resolved = resolveExportTarget(value);
+            if (resolved) return resolved;
+        }
+    }
+    return null;
+}
+
+/**
+ * Finds the "exports" target of a subpath, including "./*" patterns.
+ */
+function resolveExports(exports: unknown, subpath: string): string | null {
+    const isSubpathMap = typeof exports === 'object' && exports !== null && !Array.isArray(exports) &&
+        Object.keys(exports).some(key => key.startsWith('.'));
+    if (!isSubpathMap) {
+        return subpath === '.' ? resolveExportTarget(exports) : null;
+    }
+
+    const map = exports as Record<string, unknown>;
+    if (Object.prototype.hasOwnProperty.call(map, subpath)) {
+        return resolveExportTarget(map[subpath]);
+    }
+    for (const [key, target] of Object.entries(map)) {
+        const star = key.indexOf('*');
+        if (star === -1) continue;
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1) {
+            const resolved = resolveExportTarget(target);
+            const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+            if (resolved) return resolved.split('*').join(match);
+        }
+    }
+    return null;
+}
+
+async function isFile(path: string): Promise<boolean> {
+    try {
+        return (await stat(path)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Resolves the file loaded by `import('<name>/<subpath>')` for an installed
+ * package: "exports" with the import conditions, else "main" or index.js.
+ * Returns null when the package does not expose the subpath.
+ */
+export async function resolvePackageEntry(pkg: InstalledPackage, subpath = '.'): Promise<string | null> {
+    const exportPath = subpath === '.' || subpath.startsWith('./') ? subpath : `./${subpath}`;
+    const { exports, main } = pkg.manifest;
+    let file: string | null = null;
+    if (exports !== undefined) {
+        // Export targets are exact paths: no extension or index lookup
+        const target = resolveExports(exports, exportPath);
+        if (target?.startsWith('./') && await isFile(resolve(pkg.path, target))) {
+            file = resolve(pkg.path, target);
+        }
+    } else {
+        const base = resolve(pkg.path, exportPath === '.' ? (typeof main === 'string' ? main : 'index.js') : exportPath);
+        for (const suffix of ENTRY_SUFFIXES) {
+            if (await isFile(base + suffix)) {
+                file = base + suffix;
+                break;
+            }
+        }
+    }
+    // Never leave the package directory
+    return file && file.startsWith(resolve(pkg.path) + sep) ? file : null;
+}
+
+/**
+ * Returns the directory of a package installed in `<cwd>/node_modules`, or null
+ * when it is not installed or the name is invalid.
+ */
+export async function resolvePackagePath(name: string, cwd?: string): Promise<string | null> {
+    if (validatePackageName(name) !== null) return null;
+    const installed = await readInstalledPackage(name, resolveTarget(cwd));
+    return installed ? installed.path : null;
+}
+
+/**
+ * Returns the file `import('<name>/<subpath>')` loads for a package installed in
+ * `<cwd>/node_modules`, or null when it cannot be resolved.
+ */
+export async function resolveModulePath(
+    name: string,
+    options: { cwd?: string; subpath?: string } = {}
+): Promise<string | null> {
+    if (validatePackageName(name) !== null) return null;
+    const installed = await readInstalledPackage(name, resolveTarget(options.cwd));
+    return installed ? resolvePackageEntry(installed, options.subpath) : null;
+}
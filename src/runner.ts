@@ -0,0 +1,198 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { statSync } from 'fs';
+import { extname, isAbsolute, join } from 'path';
+
+/**
+ * Interface for a single command invocation. The command and its arguments are
+ * kept apart and are never joined into a shell string.
+ */
+export interface CommandInvocation {
+    command: string;
+    args: string[];
+    cwd?: string;
+    env?: Record<string, string>; // variables set on top of the inherited environment
+    signal?: AbortSignal; // runners should stop the command when it aborts
+    timeoutMs?: number; // runners should stop the command after this long
+    onStdout?: (chunk: string) => void; // runners should stream output here as it arrives
+    onStderr?: (chunk: string) => void;
+}
+
+/**
+ * Interface for the raw outcome of running a command
+ */
+export interface CommandOutput {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    error?: Error;
+    timedOut?: boolean;
+    aborted?: boolean;
+}
+
+/**
+ * Interface for anything able to run a command invocation (child process,
+ * container exec, recorder, fake...). Implementations should resolve with the
+ * failure in `error` rather than reject, although rejections are handled too.
+ */
+export interface CommandRunner {
+    run(invocation: CommandInvocation): Promise<CommandOutput>;
+}
+
+// Time a killed command gets to exit after SIGTERM before it receives SIGKILL
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Formats an invocation for logs and messages only. The result is never executed.
+ */
+export function formatInvocation(invocation: CommandInvocation): string {
+    return [invocation.command, ...invocation.args].join(' ');
+}
+
+// cmd.exe metacharacters, escaped with ^
+const CMD_META_REGEX = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Value of an environment variable, whose name is case-insensitive on Windows.
+ * The last spelling wins, as variables of the invocation come after inherited ones.
+ */
+function windowsEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+    return Object.entries(env).filter(([key]) => key.toUpperCase() === name).pop()?.[1];
+}
+
+/**
+ * Finds the file Windows would run for a command, looking through PATH and
+ * PATHEXT unless the command is a path.
+ */
+function findWindowsCommand(command: string, cwd: string, env: NodeJS.ProcessEnv): string | undefined {
+    const extensions = (windowsEnv(env, 'PATHEXT') ?? '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean);
+    const bases = /[\\/]/.test(command)
+        ? [isAbsolute(command) ? command : join(cwd, command)]
+        : (windowsEnv(env, 'PATH') ?? '').split(';').filter(Boolean).map(dir => join(dir, command));
+    const hasExtension = extensions.some(extension => extension.toLowerCase() === extname(command).toLowerCase());
+    for (const base of bases) {
+        for (const file of hasExtension ? [base] : extensions.map(extension => `${base}${extension}`)) {
+            try {
+                if (statSync(file).isFile()) return file;
+            } catch {
+                // not there
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Quotes an argument for a batch file started from cmd.exe: quoted as the C
+ * runtime parses arguments, then every cmd.exe metacharacter escaped with ^.
+ * The escape is doubled, since the batch file hands its arguments to cmd.exe
+ * again through %*.
+ */
+function quoteBatchArgument(arg: string): string {
+    const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, '$1$1')}"`;
+    return quoted.replace(CMD_META_REGEX, '^$1').replace(CMD_META_REGEX, '^$1');
+}
+
+/**
+ * What to spawn for an invocation. Executables are spawned directly, but on
+ * Windows package managers are mostly .cmd shims, which only cmd.exe can run:
+ * those run through it, with the command line escaped so that metacharacters
+ * in arguments keep no meaning.
+ */
+function spawnTarget(invocation: CommandInvocation, env: NodeJS.ProcessEnv): { file: string; args: string[]; verbatim: boolean } {
+    const direct = { file: invocation.command, args: invocation.args, verbatim: false };
+    if (process.platform !== 'win32') return direct;
+    const resolved = findWindowsCommand(invocation.command, invocation.cwd ?? process.cwd(), env);
+    if (!resolved || !/\.(cmd|bat)$/i.test(resolved)) return direct;
+
+    const line = [resolved.replace(CMD_META_REGEX, '^$1'), ...invocation.args.map(quoteBatchArgument)].join(' ');
+    return { file: windowsEnv(env, 'COMSPEC') ?? 'cmd.exe', args: ['/d', '/s', '/c', `"${line}"`], verbatim: true };
+}
+
+/**
+ * Default runner: spawns the command directly (no shell), so arguments are
+ * passed to the process verbatim and shell metacharacters have no meaning.
+ * Windows .cmd shims go through cmd.exe with every argument escaped. The
+ * process is killed when `timeoutMs` elapses or `signal` aborts.
+ */
+export const spawnRunner: CommandRunner = {
+    run(invocation: CommandInvocation): Promise<CommandOutput> {
+        return new Promise((resolve) => {
+            const { signal, timeoutMs } = invocation;
+            let stdout = '';
+            let stderr = '';
+            let settled = false;
+            let timedOut = false;
+            let aborted = false;
+            let timer: NodeJS.Timeout | undefined;
+            let onAbort: (() => void) | undefined;
+
+            const finish = (output: CommandOutput): void => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                if (onAbort) signal?.removeEventListener('abort', onAbort);
+                resolve(output);
+            };
+
+            if (signal?.aborted) {
+                finish({ exitCode: null, stdout, stderr, error: new Error(`Command aborted: ${formatInvocation(invocation)}`), aborted: true });
+                return;
+            }
+
+            let child: ChildProcess;
+            try {
+                const env = invocation.env && { ...process.env, ...invocation.env };
+                const target = spawnTarget(invocation, env ?? process.env);
+                child = spawn(target.file, target.args, {
+                    cwd: invocation.cwd,
+                    env,
+                    shell: false,
+                    windowsHide: true,
+                    ...(target.verbatim && { windowsVerbatimArguments: true })
+                });
+            } catch (error) {
+                finish({ exitCode: null, stdout, stderr, error: error as Error });
+                return;
+            }
+
+            const kill = (): void => {
+                child.kill('SIGTERM');
+                setTimeout(() => { if (!settled) child.kill('SIGKILL'); }, KILL_GRACE_MS).unref();
+            };
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => { timedOut = true; kill(); }, timeoutMs);
+            }
+            if (signal) {
+                onAbort = () => { aborted = true; kill(); };
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+
+            child.stdout?.on('data', (chunk: Buffer | string) => {
+                stdout += chunk.toString();
+                invocation.onStdout?.(chunk.toString());
+            });
+            child.stderr?.on('data', (chunk: Buffer | string) => {
+                stderr += chunk.toString();
+                invocation.onStderr?.(chunk.toString());
+            });
+
+            child.on('error', (error: Error) => {
+                finish({ exitCode: null, stdout, stderr, error, timedOut, aborted });
+            });
+
+            child.on('close', (code: number | null, signalName: NodeJS.Signals | null) => {
+                let error: Error | undefined;
+                if (timedOut) {
+                    error = new Error(`Command timed out after ${timeoutMs}ms: ${formatInvocation(invocation)}`);
+                } else if (aborted) {
+                    error = new Error(`Command aborted: ${formatInvocation(invocation)}`);
+                } else if (code !== 0) {
+                    error = new Error(`Command failed: ${formatInvocation(invocation)}` +
+                        (signalName ? ` (killed by ${signalName})` : ` (exit code ${code})`) +
+                        (stderr ? `\n${stderr}` : ''));
+                }
+                finish({ exitCode: code, stdout, stderr, error, timedOut, aborted });
+            });
+        });
+    }
+};
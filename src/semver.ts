@@ -0,0 +1,252 @@
+/**
+ * Minimal semver support (versions and npm-style ranges) so the installer does
+ * not need a runtime dependency.
+ */
+
+/**
+ * Interface for a parsed semantic version
+ */
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: (string | number)[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * Interface for a single range comparator such as `>=1.2.3`
+ */
+export interface Comparator {
+    operator: Operator;
+    version: SemVer;
+}
+
+/**
+ * Parsed range: comparator sets joined by `||`. Comparators inside a set are
+ * joined by AND; an empty set matches any version.
+ */
+export type Range = Comparator[][];
+
+/**
+ * Partial version as written in ranges; `undefined` parts are wildcards
+ */
+interface PartialVersion {
+    major?: number;
+    minor?: number;
+    patch?: number;
+    prerelease: (string | number)[];
+}
+
+const NUMERIC = '0|[1-9]\\d*';
+const IDENTIFIERS = '[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*';
+const XR = `\\*|x|X|${NUMERIC}`;
+
+const VERSION_REGEX = new RegExp(
+    `^v?(${NUMERIC})\\.(${NUMERIC})\\.(${NUMERIC})(?:-(${IDENTIFIERS}))?(?:\\+${IDENTIFIERS})?$`
+);
+const PARTIAL_REGEX = new RegExp(
+    `^v?(${XR})(?:\\.(${XR})(?:\\.(${XR})(?:-(${IDENTIFIERS}))?(?:\\+${IDENTIFIERS})?)?)?$`
+);
+const COMPARATOR_REGEX = /^(<=|>=|<|>|=|~>|~|\^)?(.*)$/;
+const HYPHEN_REGEX = /^(\S+)\s+-\s+(\S+)$/;
+
+function parseIdentifiers(input?: string): (string | number)[] {
+    if (!input) return [];
+    return input.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id));
+}
+
+/**
+ * Parses a full version (`1.2.3`, `v1.2.3-beta.1`). Returns null if invalid.
+ */
+export function parseVersion(input: string): SemVer | null {
+    const match = VERSION_REGEX.exec(input.trim());
+    if (!match) return null;
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: parseIdentifiers(match[4])
+    };
+}
+
+function parsePartial(input: string): PartialVersion | null {
+    const match = PARTIAL_REGEX.exec(input);
+    if (!match) return null;
+    const part = (value?: string): number | undefined =>
+        value === undefined || value === '*' || value.toLowerCase() === 'x' ? undefined : Number(value);
+
+    const major = part(match[1]);
+    // Once a part is a wildcard every following part is too (`1.x.3` means `1.x`)
+    const minor = major === undefined ? undefined : part(match[2]);
+    const patch = minor === undefined ? undefined : part(match[3]);
+    return { major, minor, patch, prerelease: patch === undefined ? [] : parseIdentifiers(match[4]) };
+}
+
+const version = (major: number, minor: number, patch: number, prerelease: (string | number)[] = []): SemVer =>
+    ({ major, minor, patch, prerelease });
+const comparator = (operator: Operator, v: SemVer): Comparator => ({ operator, version: v });
+
+// Upper bounds use the `-0` prerelease so prereleases of the next version are excluded
+const below = (major: number, minor: number, patch: number): Comparator =>
+    comparator('<', version(major, minor, patch, [0]));
+
+function lowerBound(p: PartialVersion): Comparator {
+    return comparator('>=', version(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease));
+}
+
+function desugarPartial(p: PartialVersion): Comparator[] {
+    if (p.major === undefined) return [];
+    if (p.minor === undefined) return [lowerBound(p), below(p.major + 1, 0, 0)];
+    if (p.patch === undefined) return [lowerBound(p), below(p.major, p.minor + 1, 0)];
+    return [comparator('=', version(p.major, p.minor, p.patch, p.prerelease))];
+}
+
+function desugarTilde(p: PartialVersion): Comparator[] {
+    if (p.major === undefined) return [];
+    if (p.minor === undefined) return [lowerBound(p), below(p.major + 1, 0, 0)];
+    return [lowerBound(p), below(p.major, p.minor + 1, 0)];
+}
+
+function desugarCaret(p: PartialVersion): Comparator[] {
+    if (p.major === undefined) return [];
+    if (p.minor === undefined || p.major > 0) return [lowerBound(p), below(p.major + 1, 0, 0)];
+    if (p.patch === undefined || p.minor > 0) return [lowerBound(p), below(0, p.minor + 1, 0)];
+    return [lowerBound(p), below(0, 0, p.patch + 1)];
+}
+
+function desugarPrimitive(operator: Operator, p: PartialVersion): Comparator[] {
+    if (p.major === undefined) {
+        // `<*` and `>*` can never match, `>=*`, `<=*` and `=*` match anything
+        return operator === '<' || operator === '>' ? [below(0, 0, 0)] : [];
+    }
+    if (p.patch !== undefined) {
+        return [comparator(operator, version(p.major, p.minor!, p.patch, p.prerelease))];
+    }
+    switch (operator) {
+        case '>':
+            return p.minor === undefined
+                ? [comparator('>=', version(p.major + 1, 0, 0))]
+                : [comparator('>=', version(p.major, p.minor + 1, 0))];
+        case '<=':
+            return p.minor === undefined ? [below(p.major + 1, 0, 0)] : [below(p.major, p.minor + 1, 0)];
+        case '<':
+            return [below(p.major, p.minor ?? 0, 0)];
+        case '>=':
+            return [lowerBound(p)];
+        default:
+            return desugarPartial(p);
+    }
+}
+
+function desugarHyphen(from: PartialVersion, to: PartialVersion): Comparator[] {
+    const comparators: Comparator[] = [];
+    if (from.major !== undefined) comparators.push(lowerBound(from));
+    if (to.major !== undefined) {
+        if (to.minor === undefined) comparators.push(below(to.major + 1, 0, 0));
+        else if (to.patch === undefined) comparators.push(below(to.major, to.minor + 1, 0));
+        else comparators.push(comparator('<=', version(to.major, to.minor, to.patch, to.prerelease)));
+    }
+    return comparators;
+}
+
+function parseComparatorSet(input: string): Comparator[] | null {
+    if (input === '') return [];
+
+    const hyphen = HYPHEN_REGEX.exec(input);
+    if (hyphen) {
+        const from = parsePartial(hyphen[1]);
+        const to = parsePartial(hyphen[2]);
+        return from && to ? desugarHyphen(from, to) : null;
+    }
+
+    const comparators: Comparator[] = [];
+    // Allow whitespace between an operator and its version (`>= 1.2.3`)
+    const tokens = input.replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, '$1').split(/\s+/);
+    for (const token of tokens) {
+        const [, operator, rest] = COMPARATOR_REGEX.exec(token)!;
+        const partial = parsePartial(rest);
+        if (!partial) return null;
+
+        if (operator === '~' || operator === '~>') comparators.push(...desugarTilde(partial));
+        else if (operator === '^') comparators.push(...desugarCaret(partial));
+        else if (operator) comparators.push(...desugarPrimitive(operator as Operator, partial));
+        else comparators.push(...desugarPartial(partial));
+    }
+    return comparators;
+}
+
+/**
+ * Parses an npm-style range (`^1.2.0`, `~1.2`, `1.x || >=2.1.0 <3`, `1.0.0 - 1.4`).
+ * Returns null if the range is invalid.
+ */
+export function parseRange(input: string): Range | null {
+    const sets: Range = [];
+    for (const part of input.split('||')) {
+        const set = parseComparatorSet(part.trim());
+        if (!set) return null;
+        sets.push(set);
+    }
+    return sets;
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two versions by semver precedence: negative if `a < b`, positive if `a > b`, 0 if equal.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+    const main = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (main !== 0) return main;
+
+    // A version without prerelease has higher precedence than one with it
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        if (a.prerelease[i] === undefined) return -1;
+        if (b.prerelease[i] === undefined) return 1;
+        const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+        if (result !== 0) return result;
+    }
+    return 0;
+}
+
+function testComparator(v: SemVer, { operator, version: bound }: Comparator): boolean {
+    const result = compareVersions(v, bound);
+    switch (operator) {
+        case '<': return result < 0;
+        case '<=': return result <= 0;
+        case '>': return result > 0;
+        case '>=': return result >= 0;
+        default: return result === 0;
+    }
+}
+
+function testSet(v: SemVer, set: Comparator[]): boolean {
+    if (!set.every(c => testComparator(v, c))) return false;
+    if (v.prerelease.length === 0) return true;
+
+    // Like npm, prereleases only match when a comparator opts into the same
+    // major.minor.patch with a prerelease of its own (`>=1.2.3-beta`)
+    return set.some(({ version: bound }) =>
+        bound.prerelease.length > 0 &&
+        bound.major === v.major && bound.minor === v.minor && bound.patch === v.patch);
+}
+
+/**
+ * Checks whether a version satisfies a range. Invalid input never satisfies.
+ */
+export function satisfies(versionInput: string, rangeInput: string): boolean {
+    const v = parseVersion(versionInput);
+    const range = parseRange(rangeInput);
+    if (!v || !range) return false;
+    return range.some(set => testSet(v, set));
+}
@@ -0,0 +1,47 @@
+import { readFile, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { LOCKFILES } from './package-managers.js';
+
+/**
+ * Files restored on rollback: the manifest and every known lockfile
+ */
+const TRACKED_FILES = ['package.json', ...LOCKFILES.map(([lockfile]) => lockfile)];
+
+/**
+ * Interface for the saved contents of a project's manifest and lockfiles.
+ * A null entry means the file did not exist.
+ */
+export interface Snapshot {
+    cwd: string;
+    files: Map<string, Buffer | null>;
+}
+
+/**
+ * Reads the manifest and lockfiles of the project in `cwd` into memory.
+ */
+export async function takeSnapshot(cwd: string): Promise<Snapshot> {
+    const files = new Map<string, Buffer | null>();
+    for (const file of TRACKED_FILES) {
+        try {
+            files.set(file, await readFile(join(cwd, file)));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            files.set(file, null);
+        }
+    }
+    return { cwd, files };
+}
+
+/**
+ * Writes the snapshot back, deleting files that did not exist when it was taken.
+ */
+export async function restoreSnapshot(snapshot: Snapshot): Promise<void> {
+    for (const [file, contents] of snapshot.files) {
+        const path = join(snapshot.cwd, file);
+        if (contents === null) {
+            await rm(path, { force: true });
+        } else {
+            await writeFile(path, contents);
+        }
+    }
+}
@@ -0,0 +1,215 @@
+import { parseRange } from './semver.js';
+
+/**
+ * Typed alternatives to a registry version for where a dependency comes from
+ */
+export type DependencySource =
+    | { type: 'tag'; tag: string }
+    | { type: 'git'; url: string; ref?: string }
+    | { type: 'tarball'; url: string }
+    | { type: 'file'; path: string }
+    | { type: 'alias'; package: string; version?: string };
+
+/**
+ * Interface for the parts of a dependency that make up its install spec
+ */
+export interface PackageSpec {
+    name: string;
+    version?: string;
+    source?: DependencySource;
+}
+
+/**
+ * Which part of a spec failed validation
+ */
+export type SpecErrorKind = 'name' | 'version' | 'source';
+
+/**
+ * Error thrown when a package spec does not pass validation
+ */
+export class InvalidSpecError extends Error {
+    constructor(public readonly kind: SpecErrorKind, message: string) {
+        super(message);
+        this.name = 'InvalidSpecError';
+    }
+}
+
+const MAX_NAME_LENGTH = 214;
+const RESERVED_NAMES = ['node_modules', 'favicon.ico'];
+// Allowed by encodeURIComponent but forbidden in new package names
+const SPECIAL_CHARS_REGEX = /[~'!()*]/;
+const SCOPED_NAME_REGEX = /^@([^/]+)\/([^/]+)$/;
+const GIT_URL_REGEX = /^(git\+https|git\+http|git\+ssh|git\+file|git):\/\//;
+const GIT_SHORTHAND_REGEX = /^(github|gitlab|bitbucket):[\w.-]+\/[\w.-]+$/;
+const GIT_REF_REGEX = /^[\w.][\w./-]*$/;
+
+function validateNamePart(part: string): string | null {
+    if (part.length === 0) return 'name cannot be empty';
+    if (part.startsWith('.') || part.startsWith('_')) return 'name cannot start with a period or underscore';
+    if (part.startsWith('-')) return 'name cannot start with a hyphen';
+    if (SPECIAL_CHARS_REGEX.test(part)) return 'name cannot contain special characters ("~\'!()*")';
+    if (encodeURIComponent(part) !== part) return 'name can only contain URL-friendly characters';
+    return null;
+}
+
+/**
+ * Validates a package name against npm's naming rules. Returns the reason the
+ * name is invalid, or null if it is valid. Capital letters are accepted since
+ * older registry packages still use them.
+ */
+export function validatePackageName(name: string): string | null {
+    if (typeof name !== 'string' || name.length === 0) return 'name cannot be empty';
+    if (name.trim() !== name) return 'name cannot contain leading or trailing spaces';
+    if (name.length > MAX_NAME_LENGTH) return `name cannot be longer than ${MAX_NAME_LENGTH} characters`;
+    if (RESERVED_NAMES.includes(name.toLowerCase())) return `${name} is a reserved name`;
+
+    if (name.startsWith('@')) {
+        const scoped = SCOPED_NAME_REGEX.exec(name);
+        if (!scoped) return 'scoped names must look like @scope/name';
+        return validateNamePart(scoped[1]) ?? validateNamePart(scoped[2]);
+    }
+    if (name.includes('@')) return 'version specifiers belong in the `version` field';
+    return validateNamePart(name);
+}
+
+function validateRange(range: string): string | null {
+    if (range.trim() === '' || parseRange(range) === null) {
+        return `"${range}" is not a valid semver range`;
+    }
+    return null;
+}
+
+function validateUrl(url: string, protocols: string[]): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return `"${url}" is not a valid URL`;
+    }
+    if (!protocols.includes(parsed.protocol)) {
+        return `protocol ${parsed.protocol} is not allowed`;
+    }
+    if (url.includes('#')) return 'URL cannot contain a fragment';
+    return null;
+}
+
+function sourceSpec(source: DependencySource): string {
+    const fail = (reason: string): never => { throw new InvalidSpecError('source', reason); };
+
+    switch (source.type) {
+        case 'tag': {
+            const { tag } = source;
+            if (!tag || encodeURIComponent(tag) !== tag) fail(`"${tag}" is not a valid dist-tag`);
+            if (parseRange(tag) !== null) fail(`dist-tag "${tag}" is a semver range, use the \`version\` field`);
+            return tag;
+        }
+        case 'git': {
+            const { url, ref } = source;
+            if (!GIT_SHORTHAND_REGEX.test(url)) {
+                if (!GIT_URL_REGEX.test(url)) fail(`"${url}" is not a supported git URL`);
+                const reason = validateUrl(url.replace(/^git\+/, ''), ['https:', 'http:', 'ssh:', 'file:', 'git:']);
+                if (reason) fail(reason);
+            }
+            if (ref === undefined) return url;
+            if (ref.startsWith('semver:')) {
+                const reason = validateRange(ref.slice('semver:'.length));
+                if (reason) fail(reason);
+            } else if (!GIT_REF_REGEX.test(ref)) {
+                fail(`"${ref}" is not a valid git ref`);
+            }
+            return `${url}#${ref}`;
+        }
+        case 'tarball': {
+            const reason = validateUrl(source.url, ['https:', 'http:']);
+            if (reason) fail(reason);
+            return source.url;
+        }
+        case 'file': {
+            const path = source.path?.replace(/^file:/, '');
+            if (!path || path.includes('\0')) fail('file path cannot be empty');
+            return `file:${path}`;
+        }
+        case 'alias': {
+            const nameReason = validatePackageName(source.package);
+            if (nameReason) fail(`alias target ${source.package}: ${nameReason}`);
+            if (source.version === undefined) return `npm:${source.package}`;
+            const rangeReason = validateRange(source.version);
+            if (rangeReason) fail(rangeReason);
+            return `npm:${source.package}@${source.version}`;
+        }
+        default:
+            return fail(`unknown source type "${(source as { type: string }).type}"`);
+    }
+}
+
+/**
+ * Validates a package spec and builds the single argument that installs it
+ * (`lodash`, `lodash@^4.17.0`, `app@npm:other@1`, ...).
+ * Throws an InvalidSpecError describing the first problem found.
+ */
+export function buildInstallSpec(spec: PackageSpec): string {
+    const { name, version, source } = spec;
+
+    const nameReason = validatePackageName(name);
+    if (nameReason) {
+        throw new InvalidSpecError('name', `Invalid dependency name: ${name} (${nameReason})`);
+    }
+
+    if (version !== undefined && source !== undefined) {
+        throw new InvalidSpecError('version', `Invalid version for dependency ${name}: use either \`version\` or \`source\`, not both`);
+    }
+
+    if (version !== undefined) {
+        const reason = validateRange(version);
+        if (reason) {
+            throw new InvalidSpecError('version', `Invalid version for dependency ${name}: ${reason}`);
+        }
+        return `${name}@${version}`;
+    }
+
+    if (source !== undefined) {
+        try {
+            return `${name}@${sourceSpec(source)}`;
+        } catch (error) {
+            const reason = (error as Error).message;
+            throw new InvalidSpecError('source', `Invalid source for dependency ${name}: ${reason}`);
+        }
+    }
+
+    return name;
+}
+
+/**
+ * Parses a package spec string as accepted by `npm install` (`lodash@^4`,
+ * `@scope/pkg@next`, `pkg@npm:other@1`, `pkg@github:user/repo#v1`,
+ * `pkg@https://host/pkg.tgz`, `pkg@file:../pkg`) into its typed form.
+ * Throws an InvalidSpecError if the result is not valid.
+ */
+export function parsePackageSpec(input: string): PackageSpec {
+    const separator = input.indexOf('@', 1);
+    const name = separator === -1 ? input : input.slice(0, separator);
+    const rest = separator === -1 ? '' : input.slice(separator + 1);
+
+    let spec: PackageSpec = { name };
+    if (rest.startsWith('npm:')) {
+        const target = rest.slice('npm:'.length);
+        const targetSeparator = target.indexOf('@', 1);
+        spec.source = targetSeparator === -1
+            ? { type: 'alias', package: target }
+            : { type: 'alias', package: target.slice(0, targetSeparator), version: target.slice(targetSeparator + 1) };
+    } else if (GIT_URL_REGEX.test(rest) || /^(github|gitlab|bitbucket):/.test(rest)) {
+        const [url, ref] = rest.split('#', 2);
+        spec.source = ref === undefined ? { type: 'git', url } : { type: 'git', url, ref };
+    } else if (/^https?:\/\//.test(rest)) {
+        spec.source = { type: 'tarball', url: rest };
+    } else if (rest.startsWith('file:')) {
+        spec.source = { type: 'file', path: rest.slice('file:'.length) };
+    } else if (rest !== '') {
+        spec = parseRange(rest) !== null
+            ? { name, version: rest }
+            : { name, source: { type: 'tag', tag: rest } };
+    }
+
+    buildInstallSpec(spec);
+    return spec;
+}
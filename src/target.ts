@@ -0,0 +1,53 @@
+import { mkdir, readFile, writeFile, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+
+/**
+ * package.json written into a new managed directory. Being private, it can never
+ * be published, and having one stops package managers from walking up to the
+ * application's own project.
+ */
+export const PLUGIN_DIRECTORY_MANIFEST = {
+    name: 'dynamic-installer-plugins',
+    private: true,
+    description: 'Packages installed by dynamic-installer'
+};
+
+/**
+ * Resolves the directory an installation targets: `cwd` relative to the process
+ * working directory, or the process working directory itself.
+ */
+export function resolveTarget(cwd?: string): string {
+    return cwd === undefined ? process.cwd() : resolve(process.cwd(), cwd);
+}
+
+/**
+ * Checks that `dir` exists and is a directory.
+ */
+export async function isDirectory(dir: string): Promise<boolean> {
+    try {
+        return (await stat(dir)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Creates `dir` and its package.json if they are missing. An existing
+ * package.json is kept as it is, so dependencies saved into it survive.
+ */
+export async function initPluginDirectory(dir: string): Promise<void> {
+    await mkdir(dir, { recursive: true });
+    const manifestPath = join(dir, 'package.json');
+    try {
+        JSON.parse(await readFile(manifestPath, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Invalid package.json in plugin directory ${dir}: ${(error as Error).message}`);
+        }
+        await writeFile(manifestPath, `${JSON.stringify(PLUGIN_DIRECTORY_MANIFEST, null, 2)}\n`, { flag: 'wx' })
+            .catch((writeError: NodeJS.ErrnoException) => {
+                // Created concurrently by another install: keep theirs
+                if (writeError.code !== 'EEXIST') throw writeError;
+            });
+    }
+}
@@ -0,0 +1,287 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { spawnRunner, formatInvocation, type CommandRunner, type CommandInvocation, type CommandOutput } from './runner.js';
+
+/**
+ * Interface for the scripted outcome of a fake command
+ */
+export interface FakeOutcome {
+    exitCode?: number; // defaults to 0
+    stdout?: string;
+    stderr?: string; // defaults to an npm-style error line when the command fails
+    delayMs?: number; // how long the command takes
+}
+
+/**
+ * Interface for the scripted behavior of a package in a fake run
+ */
+export interface FakePackage extends FakeOutcome {
+    version?: string; // version written to node_modules with writePackages, defaults to '1.0.0'
+}
+
+/**
+ * Outcome of every call, or a list consumed one call after the other whose last
+ * entry repeats, e.g. a failure then a success to exercise retries
+ */
+export type FakeScript<T> = T | T[];
+
+/**
+ * Interface for the options of a fake runner
+ */
+export interface FakeRunnerOptions {
+    packages?: Record<string, FakeScript<FakePackage>>; // by package name
+    commands?: Record<string, FakeScript<FakeOutcome>>; // by subcommand, for commands without packages ('audit', 'ci'...)
+    fallback?: FakePackage; // packages and commands not listed, defaults to a success
+    writePackages?: boolean; // create and remove node_modules/<name>/package.json in the command's cwd, defaults to false
+}
+
+/**
+ * Interface for a runner recording the commands it was given
+ */
+export interface FakeRunner extends CommandRunner {
+    calls: CommandInvocation[];
+}
+
+/**
+ * Interface for a command captured by a recorder, with its outcome. The
+ * environment and the working directory are left out.
+ */
+export interface RecordedCommand {
+    command: string;
+    args: string[];
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    error?: string; // message of the error the command failed with
+    timedOut?: boolean;
+    aborted?: boolean;
+}
+
+/**
+ * Interface for a fixture file of recorded commands
+ */
+export interface CommandFixture {
+    version: 1;
+    commands: RecordedCommand[];
+}
+
+/**
+ * Interface for a runner capturing the commands run through another one
+ */
+export interface RecordingRunner extends CommandRunner {
+    commands: RecordedCommand[];
+    toFixture(): CommandFixture;
+    save(path: string): Promise<void>;
+}
+
+/**
+ * Interface for a runner answering commands from a fixture
+ */
+export interface ReplayRunner extends CommandRunner {
+    calls: CommandInvocation[];
+    remaining(): RecordedCommand[]; // recorded commands not replayed yet
+}
+
+/**
+ * Interface for the options of a replay runner
+ */
+export interface ReplayOptions {
+    ordered?: boolean; // commands must come in the recorded order, defaults to false
+}
+
+// Subcommands removing the packages they are given
+const REMOVE_COMMANDS = ['uninstall', 'remove', 'rm', 'un'];
+
+/**
+ * Package name of an install spec: 'lodash@^4' and 'lodash@npm:other@1' are both lodash.
+ */
+function specName(spec: string): string {
+    const separator = spec.indexOf('@', 1);
+    return separator === -1 ? spec : spec.slice(0, separator);
+}
+
+/**
+ * Next outcome of a script, given how many times it ran already.
+ */
+function nextOutcome<T>(script: FakeScript<T>, call: number): T {
+    return Array.isArray(script) ? script[Math.min(call, script.length - 1)] : script;
+}
+
+/**
+ * Waits `delayMs` like a command taking that long would, unless the timeout of
+ * the invocation elapses or its signal aborts first.
+ */
+function wait(delayMs: number, invocation: CommandInvocation): Promise<'done' | 'timedOut' | 'aborted'> {
+    const { signal, timeoutMs } = invocation;
+    if (signal?.aborted) return Promise.resolve('aborted');
+    return new Promise(resolve => {
+        const timers: NodeJS.Timeout[] = [];
+        const finish = (outcome: 'done' | 'timedOut' | 'aborted'): void => {
+            timers.forEach(timer => clearTimeout(timer));
+            signal?.removeEventListener('abort', onAbort);
+            resolve(outcome);
+        };
+        const onAbort = (): void => finish('aborted');
+        if (timeoutMs !== undefined && timeoutMs < delayMs) {
+            timers.push(setTimeout(() => finish('timedOut'), timeoutMs));
+        } else {
+            timers.push(setTimeout(() => finish('done'), delayMs));
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Creates a runner that runs nothing and answers each command from a script:
+ * per package for commands given package specs, per subcommand otherwise. A
+ * command with several packages fails when any of them does, and one taking
+ * longer than its `timeoutMs` or aborted while it runs stops like a real one.
+ * Every invocation is kept in `calls`.
+ */
+export function createFakeRunner(options: FakeRunnerOptions = {}): FakeRunner {
+    const { packages = {}, commands = {}, fallback = {}, writePackages = false } = options;
+    const runs = new Map<string, number>(); // calls by script key
+    const next = <T extends FakeOutcome>(key: string, script: FakeScript<T> | undefined): T | FakePackage => {
+        if (script === undefined) return fallback;
+        const call = runs.get(key) ?? 0;
+        runs.set(key, call + 1);
+        return nextOutcome(script, call);
+    };
+    const calls: CommandInvocation[] = [];
+
+    return {
+        calls,
+        async run(invocation: CommandInvocation): Promise<CommandOutput> {
+            calls.push(invocation);
+            const [subcommand = '', ...rest] = invocation.args;
+            const names = rest.filter(arg => !arg.startsWith('-')).map(specName);
+            const outcomes = names.length > 0
+                ? names.map(name => ({ name, ...next(`package:${name}`, packages[name]) }))
+                : [{ name: subcommand, ...next(`command:${subcommand}`, commands[subcommand]) }];
+
+            // Like spawnRunner, a command outlasting its timeout or aborted meanwhile is stopped
+            const delayMs = Math.max(0, ...outcomes.map(outcome => outcome.delayMs ?? 0));
+            const waited = await wait(delayMs, invocation);
+            if (waited === 'timedOut') {
+                const error = new Error(`Command timed out after ${invocation.timeoutMs}ms: ${formatInvocation(invocation)}`);
+                return { exitCode: null, stdout: '', stderr: '', timedOut: true, error };
+            }
+            if (waited === 'aborted') {
+                return { exitCode: null, stdout: '', stderr: '', aborted: true, error: new Error(`Command aborted: ${formatInvocation(invocation)}`) };
+            }
+
+            const failed = outcomes.filter(outcome => (outcome.exitCode ?? 0) !== 0);
+            const stdout = outcomes.map(outcome => outcome.stdout ?? '').filter(Boolean).join('\n');
+            const stderr = outcomes
+                .map(outcome => outcome.stderr ?? ((outcome.exitCode ?? 0) !== 0 ? `npm ERR! ${outcome.name} failed` : ''))
+                .filter(Boolean)
+                .join('\n');
+            if (stdout) invocation.onStdout?.(stdout);
+            if (stderr) invocation.onStderr?.(stderr);
+
+            if (writePackages && failed.length === 0 && names.length > 0) {
+                const nodeModules = join(invocation.cwd ?? process.cwd(), 'node_modules');
+                for (const outcome of outcomes) {
+                    const dir = join(nodeModules, outcome.name);
+                    if (REMOVE_COMMANDS.includes(subcommand)) {
+                        await rm(dir, { recursive: true, force: true });
+                    } else {
+                        await mkdir(dir, { recursive: true });
+                        const version = (outcome as FakePackage).version ?? '1.0.0';
+                        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: outcome.name, version }));
+                    }
+                }
+            }
+            return { exitCode: failed.length > 0 ? failed[0].exitCode! : 0, stdout, stderr };
+        }
+    };
+}
+
+/**
+ * Creates a runner that runs every command through `runner` (spawning the real
+ * package manager by default) and records it with its outcome, to be saved as a
+ * fixture and replayed later. Output is recorded as it was printed.
+ */
+export function createRecorder(runner: CommandRunner = spawnRunner): RecordingRunner {
+    const commands: RecordedCommand[] = [];
+    const toFixture = (): CommandFixture => ({ version: 1, commands });
+
+    return {
+        commands,
+        toFixture,
+        async save(path: string): Promise<void> {
+            await writeFile(path, `${JSON.stringify(toFixture(), null, 2)}\n`);
+        },
+        async run(invocation: CommandInvocation): Promise<CommandOutput> {
+            let output: CommandOutput;
+            try {
+                output = await runner.run(invocation);
+            } catch (error) {
+                output = { exitCode: null, stdout: '', stderr: '', error: error instanceof Error ? error : new Error(String(error)) };
+            }
+            commands.push({
+                command: invocation.command,
+                args: [...invocation.args],
+                exitCode: output.exitCode,
+                stdout: output.stdout,
+                stderr: output.stderr,
+                ...(output.error && { error: output.error.message }),
+                ...(output.timedOut && { timedOut: true }),
+                ...(output.aborted && { aborted: true })
+            });
+            return output;
+        }
+    };
+}
+
+/**
+ * Reads a fixture saved by a recorder. Throws when the file is not one.
+ */
+export async function loadFixture(path: string): Promise<CommandFixture> {
+    const fixture = JSON.parse(await readFile(path, 'utf8'));
+    if (fixture?.version !== 1 || !Array.isArray(fixture.commands)) {
+        throw new Error(`Not a command fixture: ${path}`);
+    }
+    return fixture;
+}
+
+/**
+ * Creates a runner answering each command with the recorded outcome of the
+ * same command and arguments. Each recording is replayed once; a command
+ * nothing was recorded for fails with an error naming it.
+ */
+export function createReplayRunner(fixture: CommandFixture | RecordedCommand[], options: ReplayOptions = {}): ReplayRunner {
+    const pending = [...(Array.isArray(fixture) ? fixture : fixture.commands)];
+    const calls: CommandInvocation[] = [];
+    const matches = (recorded: RecordedCommand, invocation: CommandInvocation): boolean =>
+        recorded.command === invocation.command &&
+        recorded.args.length === invocation.args.length &&
+        recorded.args.every((arg, index) => arg === invocation.args[index]);
+
+    return {
+        calls,
+        remaining: () => [...pending],
+        async run(invocation: CommandInvocation): Promise<CommandOutput> {
+            calls.push(invocation);
+            const index = options.ordered
+                ? (pending.length > 0 && matches(pending[0], invocation) ? 0 : -1)
+                : pending.findIndex(recorded => matches(recorded, invocation));
+            if (index === -1) {
+                const expected = options.ordered && pending.length > 0 ? ` (expected: ${formatInvocation(pending[0])})` : '';
+                return { exitCode: null, stdout: '', stderr: '', error: new Error(`No recorded command for: ${formatInvocation(invocation)}${expected}`) };
+            }
+
+            const [recorded] = pending.splice(index, 1);
+            if (recorded.stdout) invocation.onStdout?.(recorded.stdout);
+            if (recorded.stderr) invocation.onStderr?.(recorded.stderr);
+            return {
+                exitCode: recorded.exitCode,
+                stdout: recorded.stdout,
+                stderr: recorded.stderr,
+                ...(recorded.error !== undefined && { error: new Error(recorded.error) }),
+                ...(recorded.timedOut && { timedOut: true }),
+                ...(recorded.aborted && { aborted: true })
+            };
+        }
+    };
+}
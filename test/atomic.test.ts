@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { installDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+import { takeSnapshot, restoreSnapshot } from '../src/snapshot';
+
+const MANIFEST = JSON.stringify({ name: 'app', dependencies: {} });
+const LOCKFILE = JSON.stringify({ name: 'app', lockfileVersion: 3 });
+
+describe('atomic installations', () => {
+    let dir: string;
+
+    // Fake runner simulating npm: edits package.json and the lockfile, fails for names in `failing`
+    function createRunner(failing: string[] = []) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                if (args[0] !== 'install' || args.length === 1) {
+                    return { exitCode: 0, stdout: 'up to date', stderr: '' };
+                }
+                if (failing.includes(args[1])) {
+                    return { exitCode: 1, stdout: '', stderr: 'npm ERR! 404', error: new Error('npm ERR! 404') };
+                }
+                await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { [args[1]]: '*' } }));
+                await writeFile(join(dir, 'package-lock.json'), 'modified');
+                await writeFile(join(dir, 'npm-shrinkwrap.json'), 'created');
+                return { exitCode: 0, stdout: 'added 1 package', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), MANIFEST);
+        await writeFile(join(dir, 'package-lock.json'), LOCKFILE);
+        vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should restore package.json and lockfiles when an install fails', async () => {
+        const runner = createRunner(['broken']);
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }, { name: 'broken' }, { name: 'axios' }],
+            atomic: true,
+            verbose: false,
+            runner
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.rollback).toEqual({ performed: true, success: true, message: 'Restored package.json and lockfiles' });
+        expect(result.details.map(d => d.status)).toEqual(['rolled-back', 'failed', 'skipped']);
+        expect(runner.run).toHaveBeenCalledTimes(2);
+        expect(await readFile(join(dir, 'package.json'), 'utf8')).toBe(MANIFEST);
+        expect(await readFile(join(dir, 'package-lock.json'), 'utf8')).toBe(LOCKFILE);
+        await expect(access(join(dir, 'npm-shrinkwrap.json'))).rejects.toThrow();
+    });
+
+    it('should reconcile node_modules after restoring when requested', async () => {
+        const runner = createRunner(['broken']);
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }, { name: 'broken' }],
+            atomic: { reconcile: true },
+            verbose: false,
+            runner
+        });
+
+        expect(result.rollback).toMatchObject({ performed: true, success: true, reconciled: true });
+        expect(runner.run).toHaveBeenLastCalledWith({ command: 'npm', args: ['install'], cwd: dir });
+    });
+
+    it('should not run anything when a dependency is invalid', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }, { name: '../evil' }],
+            atomic: true,
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details.map(d => d.status)).toEqual(['skipped', 'failed']);
+        expect(result.rollback?.performed).toBe(false);
+    });
+
+    it('should report that no rollback was needed on success', async () => {
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }],
+            atomic: true,
+            verbose: false,
+            runner: createRunner()
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.rollback).toEqual({ performed: false, success: true, message: 'No rollback needed' });
+        expect(result.details[0].status).toBe('installed');
+    });
+
+    it('should snapshot and restore files byte for byte', async () => {
+        const snapshot = await takeSnapshot(dir);
+        await writeFile(join(dir, 'package.json'), 'changed');
+        await writeFile(join(dir, 'yarn.lock'), 'new');
+
+        await restoreSnapshot(snapshot);
+
+        expect(await readFile(join(dir, 'package.json'), 'utf8')).toBe(MANIFEST);
+        await expect(access(join(dir, 'yarn.lock'))).rejects.toThrow();
+    });
+});
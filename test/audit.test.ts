@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseAuditReport, countBySeverity } from '../src/audit';
+import { installDependencies, updateDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+
+const fixture = (name: string) => readFile(join(__dirname, 'fixtures', 'audit', name), 'utf8');
+
+describe('parseAuditReport', () => {
+    it('should read npm reports and trace advisories to direct dependencies', async () => {
+        const advisories = parseAuditReport(await fixture('npm.json'));
+
+        expect(advisories.map(({ id, name, severity, roots }) => ({ id, name, severity, roots }))).toEqual([
+            { id: '1097679', name: 'axios', severity: 'moderate', roots: ['axios'] },
+            { id: '1096856', name: 'follow-redirects', severity: 'high', roots: ['axios'] },
+            { id: '1097677', name: 'minimist', severity: 'critical', roots: ['mkdirp'] }
+        ]);
+        expect(advisories[1]).toMatchObject({
+            title: 'Exposure of sensitive information in follow-redirects',
+            url: 'https://github.com/advisories/GHSA-74fj-2j2h-c42q',
+            range: '<1.14.7'
+        });
+        expect(countBySeverity(advisories)).toEqual({ info: 0, low: 0, moderate: 1, high: 1, critical: 1 });
+    });
+
+    it('should read npm 6 and pnpm reports with their paths', async () => {
+        expect(parseAuditReport(await fixture('npm6.json'))).toEqual([{
+            id: '1179',
+            name: 'minimist',
+            severity: 'low',
+            title: 'Prototype Pollution',
+            url: 'https://npmjs.com/advisories/1179',
+            range: '<0.2.1 || >=1.0.0 <1.2.3',
+            roots: ['mkdirp', 'optimist']
+        }]);
+        expect(parseAuditReport(await fixture('pnpm.json'), 'pnpm')).toEqual([
+            expect.objectContaining({ id: '1096856', name: 'follow-redirects', severity: 'high', roots: ['axios', 'got'] })
+        ]);
+    });
+
+    it('should merge the lines of a Yarn report by advisory', async () => {
+        expect(parseAuditReport(await fixture('yarn.ndjson'))).toEqual([
+            expect.objectContaining({ id: '1179', name: 'minimist', severity: 'moderate', roots: ['mkdirp', 'optimist'] })
+        ]);
+    });
+
+    it('should read Bun reports, which have no paths', async () => {
+        expect(parseAuditReport(await fixture('bun.json'))).toEqual([
+            expect.objectContaining({ id: '1096856', name: 'follow-redirects', severity: 'high', roots: [] })
+        ]);
+    });
+
+    it('should read reports without advisories', () => {
+        expect(parseAuditReport('{"auditReportVersion":2,"vulnerabilities":{},"metadata":{}}')).toEqual([]);
+        expect(parseAuditReport('{}')).toEqual([]);
+    });
+
+    it.each([
+        ['', 'the audit printed no report'],
+        ['npm ERR! audit endpoint returned an error', 'the audit report is not JSON'],
+        ['[1, 2]', 'the audit report is not a JSON object'],
+        ['{"type":"error","data":"Couldn\'t find a lockfile"}', 'Couldn\'t find a lockfile'],
+        ['{"metadata":{"vulnerabilities":1}}', 'unrecognized audit report']
+    ])('should reject %j', (output, message) => {
+        expect(() => parseAuditReport(output)).toThrow(message);
+    });
+
+    it('should reject the error report of npm', async () => {
+        const report = await fixture('npm-error.json');
+
+        expect(() => parseAuditReport(report)).toThrow('This command requires an existing lockfile.');
+    });
+});
+
+describe('installDependencies with an audit', () => {
+    let dir: string;
+
+    // Writes the hidden lockfile npm keeps in node_modules
+    async function writeTree(packages: Record<string, string>) {
+        await writeFile(join(dir, 'node_modules', '.package-lock.json'), JSON.stringify({
+            lockfileVersion: 3,
+            packages: Object.fromEntries(Object.entries(packages).map(([name, version]) => [`node_modules/${name}`, { version }]))
+        }));
+    }
+
+    // Fake npm: installs axios with a vulnerable follow-redirects, prints `report` on audit
+    function createRunner(report: string, auditExitCode = 1) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                if (args[0] === 'audit') return { exitCode: auditExitCode, stdout: report, stderr: '' };
+                if (args[0] === 'uninstall') {
+                    await writeTree({ mkdirp: '0.5.1', minimist: '0.0.8' });
+                    return { exitCode: 0, stdout: 'removed 2 packages', stderr: '' };
+                }
+                await writeTree({ mkdirp: '0.5.1', minimist: '0.0.8', axios: '0.21.1', 'follow-redirects': '1.14.0' });
+                return { exitCode: 0, stdout: 'added 2 packages', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await mkdir(join(dir, 'node_modules'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { mkdirp: '^0.5.1' } }));
+        await writeTree({ mkdirp: '0.5.1', minimist: '0.0.8' });
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should fail the run on advisories the run brought in', async () => {
+        const runner = createRunner(await fixture('npm.json'));
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'axios' }], audit: true, verbose: false, runner });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['install', 'axios'], ['audit', '--json']]);
+        expect(result.success).toBe(false);
+        expect(result.details[0]).toMatchObject({ success: true, status: 'installed' });
+        expect(result.audit).toMatchObject({ success: true, passed: false, threshold: 'high', error: { code: 'VULNERABLE' } });
+        // minimist was installed before the run: reported, but not blocking
+        expect(result.audit?.advisories).toHaveLength(3);
+        expect(result.audit?.blocking.map(advisory => advisory.name)).toEqual(['follow-redirects']);
+        expect(result.audit?.message).toBe('Audit found 1 high or higher advisory in what the run installed: ' +
+            'follow-redirects (high: Exposure of sensitive information in follow-redirects)');
+    });
+
+    it('should pass below the threshold', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            audit: { threshold: 'critical' },
+            verbose: false,
+            runner: createRunner(await fixture('npm.json'))
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.audit).toMatchObject({ passed: true, blocking: [], counts: { moderate: 1, high: 1, critical: 1 } });
+    });
+
+    it('should uninstall the dependencies that brought advisories in', async () => {
+        const runner = createRunner(await fixture('npm.json'));
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }, { name: 'left-pad' }],
+            strategy: 'batched',
+            audit: { threshold: 'moderate', rollback: true },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['install', 'axios', 'left-pad'], ['audit', '--json'], ['uninstall', 'axios']]);
+        expect(result.details[0]).toMatchObject({ success: false, status: 'rolled-back', error: { code: 'VULNERABLE' } });
+        expect(result.details[0].message).toBe('Rolled back: axios brings in axios (moderate: Axios Cross-Site Request Forgery Vulnerability), ' +
+            'follow-redirects (high: Exposure of sensitive information in follow-redirects)');
+        expect(result.details[1]).toMatchObject({ success: true, status: 'installed' });
+        expect(result.changes).toEqual([]);
+    });
+
+    it('should leave dependencies the project had before the run in place', async () => {
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { mkdirp: '^0.5.1', axios: '^0.21.0' } }));
+        await writeTree({ mkdirp: '0.5.1', minimist: '0.0.8', axios: '0.21.0' });
+        const runner = createRunner(await fixture('npm.json'));
+
+        const result = await updateDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            audit: { rollback: true },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['update', 'axios'], ['audit', '--json']]);
+        expect(result.details[0]).toMatchObject({ success: false, status: 'failed', error: { code: 'VULNERABLE' } });
+        expect(result.details[0].message).toBe('axios brings in follow-redirects (high: Exposure of sensitive information in follow-redirects); ' +
+            'left in place: it was installed before the run, at 0.21.0');
+        expect(result.changes?.find(change => change.name === 'axios')).toMatchObject({ type: 'updated', from: '0.21.0', to: '0.21.1' });
+    });
+
+    it('should roll the whole run back in atomic mode', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            audit: { rollback: true },
+            atomic: true,
+            verbose: false,
+            runner: createRunner(await fixture('npm.json'))
+        });
+
+        expect(result.rollback).toMatchObject({ performed: true, success: true });
+        expect(result.details[0].message).toMatch(/^Rolled back: Audit found 1 high or higher advisory/);
+    });
+
+    it('should fail the run when the audit cannot run', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            audit: true,
+            verbose: false,
+            runner: createRunner(await fixture('npm-error.json'))
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.audit).toMatchObject({ success: false, passed: false, error: { code: 'AUDIT_FAILED' } });
+        expect(result.audit?.message).toBe('Audit failed: This command requires an existing lockfile.');
+    });
+
+    it('should reject an invalid threshold before running anything', async () => {
+        const runner = createRunner('{}');
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            audit: { threshold: 'info' as 'low' },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].message).toBe('Invalid audit threshold: info (expected low, moderate, high or critical)');
+    });
+
+    it('should report Yarn 2+ as unsupported', async () => {
+        const runner = createRunner('{}');
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios' }],
+            packageManager: 'yarn',
+            audit: true,
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].error?.code).toBe('UNSUPPORTED_PACKAGE_MANAGER');
+        expect(result.details[0].message).toBe('The yarn adapter does not support audit: it has no auditArgs');
+    });
+});
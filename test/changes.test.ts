@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readInstalledTree, diffInstalledTrees } from '../src/changes';
+import { installDependencies, ensureDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+
+// Writes a package into <dir>/<path>
+async function writePackage(dir: string, path: string, version: string) {
+    await mkdir(join(dir, path), { recursive: true });
+    await writeFile(join(dir, path, 'package.json'), JSON.stringify({ name: path.split('node_modules/').pop(), version }));
+}
+
+describe('readInstalledTree', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({
+            name: 'app',
+            dependencies: { lodash: '^4.0.0' },
+            devDependencies: { '@types/node': '^20.0.0' }
+        }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read the packages of a v3 lockfile', async () => {
+        await writeFile(join(dir, 'package-lock.json'), JSON.stringify({
+            lockfileVersion: 3,
+            packages: {
+                '': { name: 'app' },
+                'node_modules/lodash': { version: '4.17.21' },
+                'node_modules/debug/node_modules/ms': { version: '2.0.0' },
+                'node_modules/workspace-a': { resolved: 'packages/a', link: true }
+            }
+        }));
+
+        const tree = await readInstalledTree(dir);
+
+        expect(tree.packages).toEqual(new Map([['node_modules/lodash', '4.17.21'], ['node_modules/debug/node_modules/ms', '2.0.0']]));
+        expect(tree.direct).toEqual(new Set(['lodash', '@types/node']));
+    });
+
+    it('should read the nested dependencies of a v1 lockfile', async () => {
+        await writeFile(join(dir, 'package-lock.json'), JSON.stringify({
+            lockfileVersion: 1,
+            dependencies: { debug: { version: '2.6.9', dependencies: { ms: { version: '2.0.0' } } } }
+        }));
+
+        const tree = await readInstalledTree(dir);
+
+        expect(tree.packages).toEqual(new Map([['node_modules/debug', '2.6.9'], ['node_modules/debug/node_modules/ms', '2.0.0']]));
+    });
+
+    it('should scan node_modules when there is no lockfile', async () => {
+        await writePackage(dir, 'node_modules/lodash', '4.17.21');
+        await writePackage(dir, 'node_modules/@types/node', '20.1.0');
+        await writePackage(dir, 'node_modules/debug/node_modules/ms', '2.0.0');
+        await writePackage(dir, 'node_modules/debug', '2.6.9');
+        await mkdir(join(dir, 'node_modules', '.bin'));
+
+        const tree = await readInstalledTree(dir);
+
+        expect(new Map([...tree.packages].sort())).toEqual(new Map([
+            ['node_modules/@types/node', '20.1.0'],
+            ['node_modules/debug', '2.6.9'],
+            ['node_modules/debug/node_modules/ms', '2.0.0'],
+            ['node_modules/lodash', '4.17.21']
+        ]));
+    });
+});
+
+describe('diffInstalledTrees', () => {
+    it('should list added, updated and removed packages, direct or not', () => {
+        const before = {
+            packages: new Map([['node_modules/lodash', '4.17.20'], ['node_modules/left-pad', '1.3.0'], ['node_modules/ms', '2.1.3']]),
+            direct: new Set(['lodash', 'left-pad'])
+        };
+        const after = {
+            packages: new Map([['node_modules/lodash', '4.17.21'], ['node_modules/ms', '2.1.3'], ['node_modules/axios', '1.6.0'], ['node_modules/axios/node_modules/ms', '2.0.0']]),
+            direct: new Set(['lodash', 'axios'])
+        };
+
+        expect(diffInstalledTrees(before, after)).toEqual([
+            { name: 'axios', type: 'added', to: '1.6.0', direct: true, path: 'node_modules/axios' },
+            { name: 'ms', type: 'added', to: '2.0.0', direct: false, path: 'node_modules/axios/node_modules/ms' },
+            { name: 'left-pad', type: 'removed', from: '1.3.0', direct: true, path: 'node_modules/left-pad' },
+            { name: 'lodash', type: 'updated', from: '4.17.20', to: '4.17.21', direct: true, path: 'node_modules/lodash' }
+        ]);
+    });
+});
+
+describe('installDependencies changes', () => {
+    let dir: string;
+
+    // Fake runner simulating npm: installs the requested version and its dependency, updating the hidden lockfile
+    function createRunner(packages: Record<string, string>) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                const [name, version] = args[1].split('@');
+                packages[`node_modules/${name}`] = version;
+                packages['node_modules/follow-redirects'] = '1.15.6';
+                await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { [name]: `^${version}` } }));
+                await writeFile(join(dir, 'node_modules', '.package-lock.json'), JSON.stringify({
+                    lockfileVersion: 3,
+                    packages: Object.fromEntries(Object.entries(packages).map(([path, v]) => [path, { version: v }]))
+                }));
+                return { exitCode: 0, stdout: 'added 2 packages', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await mkdir(join(dir, 'node_modules'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { axios: '^1.5.0' } }));
+        await writeFile(join(dir, 'node_modules', '.package-lock.json'), JSON.stringify({
+            lockfileVersion: 3,
+            packages: { 'node_modules/axios': { version: '1.5.0' } }
+        }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should report the changes of the run and the resolved versions', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios', version: '1.6.0' }],
+            verbose: false,
+            runner: createRunner({ 'node_modules/axios': '1.5.0' })
+        });
+
+        expect(result.changes).toEqual([
+            { name: 'axios', type: 'updated', from: '1.5.0', to: '1.6.0', direct: true, path: 'node_modules/axios' },
+            { name: 'follow-redirects', type: 'added', to: '1.15.6', direct: false, path: 'node_modules/follow-redirects' }
+        ]);
+        expect(result.details[0]).toMatchObject({ status: 'installed', version: '1.6.0', previousVersion: '1.5.0' });
+    });
+
+    it('should not report changes when no command ran', async () => {
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: '../evil' }], verbose: false, runner: createRunner({}) });
+
+        expect(result.changes).toBeUndefined();
+    });
+
+    it('should keep the changes of ensureDependencies runs', async () => {
+        await writePackage(dir, 'node_modules/axios', '1.5.0');
+
+        const result = await ensureDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'axios', version: '1.6.0' }],
+            verbose: false,
+            runner: createRunner({ 'node_modules/axios': '1.5.0' })
+        });
+
+        expect(result.changes?.map(change => change.name)).toEqual(['axios', 'follow-redirects']);
+        expect(result.details[0]).toMatchObject({ status: 'upgraded', version: '1.6.0', previousVersion: '1.5.0' });
+    });
+});
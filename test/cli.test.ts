@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, EXIT_SUCCESS, EXIT_INSTALL_FAILED, EXIT_USAGE } from '../src/cli';
+import type { CommandInvocation, CommandOutput } from '../src/runner';
+
+const ok = (): CommandOutput => ({ exitCode: 0, stdout: 'added 1 package', stderr: '' });
+
+describe('runCli', () => {
+    let dir: string;
+    let out: string;
+    let err: string;
+    let runner: { run: ReturnType<typeof vi.fn> };
+
+    const run = (argv: string[]) => runCli(argv, {
+        cwd: dir,
+        stdout: text => { out += text; },
+        stderr: text => { err += text; },
+        runner
+    });
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        vi.spyOn(process, 'cwd').mockReturnValue(dir);
+        out = '';
+        err = '';
+        runner = { run: vi.fn(async (_: CommandInvocation) => ok()) };
+        await writeFile(join(dir, 'dynamic-installer.json'), JSON.stringify({
+            globalOptions: ['--no-save'],
+            dependencies: [{ name: 'lodash' }],
+            profiles: { dev: { dependencies: [{ name: 'vitest', options: ['-D'] }] } }
+        }));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should install the default manifest and print a summary', async () => {
+        expect(await run([])).toBe(EXIT_SUCCESS);
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(runner.run.mock.calls[0][0].args).toEqual(['install', 'lodash', '--no-save']);
+        expect(out).toContain('ok      lodash (installed)');
+        expect(out).toContain('1 dependencies installed');
+    });
+
+    it('should install the selected profile', async () => {
+        expect(await run(['--profile', 'dev'])).toBe(EXIT_SUCCESS);
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([
+            ['install', 'lodash', '--no-save'],
+            ['install', 'vitest', '--no-save', '-D']
+        ]);
+    });
+
+    it('should install into a cwd relative to the manifest', async () => {
+        await mkdir(join(dir, 'config'));
+        await writeFile(join(dir, 'config', 'plugins.json'), JSON.stringify({
+            profiles: { plugins: { cwd: '../plugins', managed: true, dependencies: [{ name: 'my-plugin' }] } }
+        }));
+
+        expect(await run(['config/plugins.json', '--profile', 'plugins'])).toBe(EXIT_SUCCESS);
+        expect(runner.run.mock.calls[0][0].cwd).toBe(join(dir, 'plugins'));
+    });
+
+    it('should print the result as JSON and exit with 1 when an install fails', async () => {
+        runner.run.mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'npm ERR! code E404' });
+
+        expect(await run(['dynamic-installer.json', '--json'])).toBe(EXIT_INSTALL_FAILED);
+
+        const result = JSON.parse(out);
+        expect(result.success).toBe(false);
+        expect(result.details[0].error.code).toBe('E404');
+    });
+
+    it('should send verbose logs to stderr with --json', async () => {
+        await run(['--json', '--verbose']);
+
+        expect(err).toContain('command: npm install lodash --no-save');
+        expect(() => JSON.parse(out)).not.toThrow();
+    });
+
+    it('should exit with 2 on usage and manifest errors', async () => {
+        expect(await run(['--frobnicate'])).toBe(EXIT_USAGE);
+        expect(err).toContain('Unknown option: --frobnicate');
+
+        err = '';
+        expect(await run(['--profile=prod'])).toBe(EXIT_USAGE);
+        expect(err).toContain('Unknown profile: prod (available: dev)');
+
+        err = '';
+        expect(await run(['missing.json'])).toBe(EXIT_USAGE);
+        expect(err).toContain('Could not read');
+        expect(runner.run).not.toHaveBeenCalled();
+    });
+
+    it('should print the usage with --help', async () => {
+        expect(await run(['--help'])).toBe(EXIT_SUCCESS);
+        expect(out).toContain('Usage: dynamic-installer [manifest] [options]');
+    });
+});
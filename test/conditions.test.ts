@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { validateCondition, checkCondition } from '../src/conditions';
+import { installDependencies, planInstallation, type CommandInvocation, type CommandOutput } from '../src/index';
+
+const otherPlatform = process.platform === 'win32' ? 'linux' : 'win32';
+
+describe('conditions', () => {
+    it.each([
+        [[], 'when must be an object'],
+        [{ platform: 1 }, 'platform must be a string or an array of strings'],
+        [{ arch: ['x64', 2] }, 'arch must be a string or an array of strings'],
+        [{ node: '>=banana' }, 'node must be a semver range, got ">=banana"'],
+        [{ env: { CI: 1 } }, 'env.CI must be a string or a boolean']
+    ])('should reject %j', (condition, reason) => {
+        expect(validateCondition(condition)).toBe(reason);
+    });
+
+    it('should hold when every condition matches the running process', () => {
+        expect(checkCondition({
+            platform: [otherPlatform, process.platform],
+            arch: process.arch,
+            node: '>=18',
+            env: { CI: true, DEBUG: false, MODE: 'plugins' }
+        }, { CI: '1', MODE: 'plugins' })).toBeNull();
+    });
+
+    it.each([
+        [{ platform: otherPlatform }, {}, `platform is ${process.platform}, needs ${otherPlatform}`],
+        [{ arch: ['mips', 'ppc'] }, {}, `arch is ${process.arch}, needs mips or ppc`],
+        [{ node: '<1.0.0' }, {}, `Node.js is ${process.versions.node}, needs <1.0.0`],
+        [{ env: { CI: true } }, { CI: '' }, 'CI is not set'],
+        [{ env: { CI: false } }, { CI: 'true' }, 'CI is set'],
+        [{ env: { MODE: 'plugins' } }, { MODE: 'dev' }, 'MODE is dev, needs plugins']
+    ])('should explain why %j does not hold', (condition, env, reason) => {
+        expect(checkCondition(condition, env)).toBe(reason);
+    });
+});
+
+describe('installDependencies with conditions', () => {
+    const runner = () => ({
+        run: vi.fn(async (_: CommandInvocation): Promise<CommandOutput> => ({ exitCode: 0, stdout: 'added 1 package', stderr: '' }))
+    });
+
+    it('should leave out dependencies whose condition does not hold', async () => {
+        const fake = runner();
+
+        const result = await installDependencies({
+            dependencies: [
+                { name: 'fsevents', when: { platform: otherPlatform } },
+                { name: 'lodash', when: { node: '>=18' } },
+                { name: 'broken', when: { node: 'latest' } }
+            ],
+            verbose: false,
+            runner: fake
+        });
+
+        expect(fake.run.mock.calls.map(call => call[0].args[1])).toEqual(['lodash']);
+        expect(result.details[0]).toEqual({ name: 'fsevents', success: true, status: 'not-applicable', message: `Not applicable: platform is ${process.platform}, needs ${otherPlatform}` });
+        expect(result.details[2].error?.code).toBe('INVALID_CONDITION');
+    });
+
+    it('should list dependencies that do not apply in a plan', async () => {
+        const plan = await planInstallation({ dependencies: [{ name: 'fsevents', when: { platform: otherPlatform } }] });
+
+        expect(plan).toMatchObject({ valid: true, commands: [], notApplicable: [{ name: 'fsevents', reason: `platform is ${process.platform}, needs ${otherPlatform}` }] });
+    });
+
+    it('should not fail dependencies that do not apply when the run is invalid', async () => {
+        const result = await installDependencies({
+            dependencies: [{ name: 'fsevents', when: { platform: otherPlatform } }, { name: 'lodash' }],
+            packageManager: 'unknown' as 'npm',
+            verbose: false,
+            runner: runner()
+        });
+
+        expect(result.details.map(detail => detail.status)).toEqual(['not-applicable', 'failed']);
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ensureDependencies, type CommandInvocation, type CommandOutput, type InstallEvent } from '../src/index';
+
+// Fake runner: records every invocation and answers successfully
+function createRunner() {
+    return { run: vi.fn(async (_invocation: CommandInvocation): Promise<CommandOutput> => ({ exitCode: 0, stdout: 'added', stderr: '' })) };
+}
+
+describe('ensureDependencies', () => {
+    let dir: string;
+
+    async function installFixture(dirName: string, manifest: Record<string, unknown>) {
+        const path = join(dir, 'node_modules', dirName);
+        await mkdir(path, { recursive: true });
+        await writeFile(join(path, 'package.json'), JSON.stringify(manifest));
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should skip dependencies already installed at a satisfying version', async () => {
+        await installFixture('lodash', { name: 'lodash', version: '4.17.21' });
+        await installFixture('@types/node', { name: '@types/node', version: '20.1.0' });
+        const runner = createRunner();
+
+        const result = await ensureDependencies({
+            dependencies: [{ name: 'lodash', version: '^4.17.0' }, { name: '@types/node' }],
+            verbose: false,
+            runner
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.details.map(d => d.status)).toEqual(['already-satisfied', 'already-satisfied']);
+        expect(result.details[0].version).toBe('4.17.21');
+        expect(runner.run).not.toHaveBeenCalled();
+    });
+
+    it('should install missing packages and upgrade out-of-range ones', async () => {
+        await installFixture('lodash', { name: 'lodash', version: '3.10.1' });
+        await installFixture('react', { name: 'react', version: '18.2.0' });
+        const runner = createRunner();
+
+        const result = await ensureDependencies({
+            dependencies: [
+                { name: 'lodash', version: '^4.17.0' },
+                { name: 'react', version: '^18.0.0' },
+                { name: 'axios' }
+            ],
+            verbose: false,
+            runner
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.details.map(d => [d.name, d.status])).toEqual([
+            ['lodash', 'upgraded'],
+            ['react', 'already-satisfied'],
+            ['axios', 'installed']
+        ]);
+        expect(result.details[0].previousVersion).toBe('3.10.1');
+        expect(runner.run.mock.calls.map(([invocation]) => invocation.args[1])).toEqual(['lodash@^4.17.0', 'axios']);
+    });
+
+    it('should emit one run and final statuses for every dependency', async () => {
+        await installFixture('lodash', { name: 'lodash', version: '3.10.1' });
+        await installFixture('react', { name: 'react', version: '18.2.0' });
+        const events: InstallEvent[] = [];
+
+        await ensureDependencies({
+            dependencies: [{ name: 'lodash', version: '^4.17.0' }, { name: 'react' }],
+            onEvent: event => events.push(event),
+            verbose: false,
+            runner: createRunner()
+        });
+
+        expect(events.filter(event => event.type === 'run-start')).toHaveLength(1);
+        expect(events.filter(event => event.type === 'run-end')).toHaveLength(1);
+        const ends = events.flatMap(event => (event.type === 'dependency-end' ? [[event.name, event.result.status]] : []));
+        expect(ends).toEqual([['react', 'already-satisfied'], ['lodash', 'upgraded']]);
+    });
+
+    it('should check npm aliases against the target package', async () => {
+        await installFixture('lodash3', { name: 'lodash', version: '3.10.1' });
+        const runner = createRunner();
+
+        const result = await ensureDependencies({
+            dependencies: [
+                { name: 'lodash3', source: { type: 'alias', package: 'lodash', version: '3' } }
+            ],
+            verbose: false,
+            runner
+        });
+
+        expect(result.details[0].status).toBe('already-satisfied');
+        expect(runner.run).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid dependencies as failed without touching the filesystem', async () => {
+        const runner = createRunner();
+
+        const result = await ensureDependencies({
+            dependencies: [{ name: '../../etc' }],
+            verbose: false,
+            runner
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.details[0].status).toBe('failed');
+        expect(result.details[0].message).toContain('Invalid dependency name');
+    });
+});
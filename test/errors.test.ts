@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { classifyFailure, createInstallError, specErrorCode, type FailedCommand } from '../src/errors';
+
+// A failed command that printed `stderr` and exited with code 1
+const failed = (stderr: string, extra: Partial<FailedCommand> = {}): FailedCommand => ({
+    message: 'Command failed: npm install x (exit code 1)',
+    stdout: '',
+    stderr,
+    exitCode: 1,
+    timedOut: false,
+    aborted: false,
+    ...extra
+});
+
+describe('classifyFailure', () => {
+    it.each([
+        ['npm 404', 'npm ERR! code E404\nnpm ERR! 404 Not Found - GET https://registry.npmjs.org/nope - Not found', 'E404'],
+        ['npm 10 404', 'npm error code E404\nnpm error 404 \'nope@*\' is not in this registry.', 'E404'],
+        ['pnpm 404', 'ERR_PNPM_FETCH_404  GET https://registry.npmjs.org/nope: Not Found - 404', 'E404'],
+        ['yarn 404', '➤ YN0035: │ nope@npm:latest: Package not found', 'E404'],
+        ['bun 404', 'error: package "nope" not found registry.npmjs.org/nope 404', 'E404'],
+        ['npm no matching version', 'npm ERR! code ETARGET\nnpm ERR! notarget No matching version found for lodash@^99.0.0.', 'ETARGET'],
+        ['pnpm no matching version', 'ERR_PNPM_NO_MATCHING_VERSION  No matching version found for lodash@^99.0.0', 'ETARGET'],
+        ['npm peer conflict', 'npm ERR! code ERESOLVE\nnpm ERR! ERESOLVE unable to resolve dependency tree', 'ERESOLVE'],
+        ['npm permissions', 'npm ERR! code EACCES\nnpm ERR! syscall mkdir', 'EACCES'],
+        ['npm integrity', 'npm ERR! code EINTEGRITY\nnpm ERR! sha512-abc integrity checksum failed', 'EINTEGRITY'],
+        ['pnpm integrity', 'ERR_PNPM_TARBALL_INTEGRITY  Got unexpected checksum', 'EINTEGRITY'],
+        ['npm network', 'npm ERR! code ECONNRESET\nnpm ERR! network aborted', 'NETWORK'],
+        ['dns', 'npm ERR! code EAI_AGAIN\nnpm ERR! request to https://registry.npmjs.org failed', 'NETWORK'],
+        ['anything else', 'npm ERR! something unexpected', 'UNKNOWN']
+    ])('should classify %s', (_, stderr, code) => {
+        expect(classifyFailure(failed(stderr)).code).toBe(code);
+    });
+
+    it('should keep the exit code and message and add the hint of the code', () => {
+        const error = classifyFailure(failed('npm ERR! code E404'));
+
+        expect(error).toEqual({
+            code: 'E404',
+            message: 'Command failed: npm install x (exit code 1)',
+            exitCode: 1,
+            hint: expect.stringContaining('registry')
+        });
+    });
+
+    it('should prefer how the command ended over what it printed', () => {
+        expect(classifyFailure(failed('npm ERR! code E404', { timedOut: true, exitCode: null })).code).toBe('TIMEOUT');
+        expect(classifyFailure(failed('npm ERR! code E404', { aborted: true, exitCode: null })).code).toBe('ABORTED');
+    });
+
+    it('should recognize a package manager that cannot be started', () => {
+        const error = classifyFailure(failed('', { message: 'spawn pnpm ENOENT', errorCode: 'ENOENT', exitCode: null }));
+
+        expect(error.code).toBe('COMMAND_NOT_FOUND');
+        expect(error.exitCode).toBeNull();
+    });
+});
+
+describe('createInstallError', () => {
+    it('should omit the exit code when the command never ran', () => {
+        expect(createInstallError('INVALID_OPTIONS', 'Invalid options for dependency: x')).toEqual({
+            code: 'INVALID_OPTIONS',
+            message: 'Invalid options for dependency: x',
+            hint: expect.any(String)
+        });
+    });
+
+    it('should map spec error kinds to validation codes', () => {
+        expect(specErrorCode('name')).toBe('INVALID_NAME');
+        expect(specErrorCode('version')).toBe('INVALID_VERSION');
+        expect(specErrorCode('source')).toBe('INVALID_SOURCE');
+    });
+});
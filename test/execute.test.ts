@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeCommand } from '../src/execute';
+import { createRunLog } from '../src/logging';
+import type { CommandInvocation, CommandOutput } from '../src/runner';
+
+const invocation: CommandInvocation = { command: 'npm', args: ['install', 'lodash'] };
+const ok: CommandOutput = { exitCode: 0, stdout: 'added 1 package', stderr: '' };
+const networkError: CommandOutput = { exitCode: 1, stdout: '', stderr: 'npm ERR! code ECONNRESET', error: new Error('Command failed') };
+const notFound: CommandOutput = { exitCode: 1, stdout: '', stderr: 'npm ERR! code E404', error: new Error('Command failed') };
+
+// Fake runner answering with the given outputs in order
+function createRunner(...outputs: CommandOutput[]) {
+    return { run: vi.fn(async (_invocation: CommandInvocation) => outputs.shift() ?? ok) };
+}
+
+describe('executeCommand', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should run once without a retry policy', async () => {
+        const runner = createRunner(networkError);
+
+        const result = await executeCommand(invocation, { runner, log: createRunLog(false) });
+
+        expect(result.success).toBe(false);
+        expect(result.attempts).toBe(1);
+        expect(runner.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable errors with exponential backoff', async () => {
+        vi.useFakeTimers();
+        const runner = createRunner(networkError, networkError, ok);
+        const log = createRunLog(false);
+
+        const pending = executeCommand(invocation, { runner, log, retry: { attempts: 3, delayMs: 100 } });
+        await vi.advanceTimersByTimeAsync(100);
+        expect(runner.run).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(200);
+        const result = await pending;
+
+        expect(result.success).toBe(true);
+        expect(result.attempts).toBe(3);
+        expect(log.lines).toContain('retrying in 100ms (attempt 2 of 3)');
+        expect(log.lines).toContain('retrying in 200ms (attempt 3 of 3)');
+    });
+
+    it('should not retry errors outside retryOn', async () => {
+        const runner = createRunner(notFound, ok);
+
+        const result = await executeCommand(invocation, { runner, log: createRunLog(false), retry: { delayMs: 0 } });
+
+        expect(result.success).toBe(false);
+        expect(result.attempts).toBe(1);
+    });
+
+    it('should treat timed out attempts as ETIMEDOUT', async () => {
+        const timedOut: CommandOutput = { exitCode: null, stdout: '', stderr: '', error: new Error('timed out'), timedOut: true };
+        const runner = createRunner(timedOut, ok);
+
+        const result = await executeCommand(
+            { ...invocation, timeoutMs: 50 },
+            { runner, log: createRunLog(false), retry: { delayMs: 0 } }
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.attempts).toBe(2);
+        expect(runner.run.mock.calls[0][0].timeoutMs).toBe(50);
+    });
+
+    it('should stop retrying once aborted', async () => {
+        const controller = new AbortController();
+        const runner = createRunner(networkError, ok);
+
+        const pending = executeCommand(invocation, {
+            runner,
+            log: createRunLog(false),
+            retry: { delayMs: 60_000 },
+            signal: controller.signal
+        });
+        await Promise.resolve();
+        controller.abort();
+        const result = await pending;
+
+        expect(result.aborted).toBe(true);
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(runner.run.mock.calls[0][0].signal).toBe(controller.signal);
+    });
+
+    it('should bound each attempt by the deadline', async () => {
+        const runner = createRunner(ok);
+
+        await executeCommand({ ...invocation, timeoutMs: 60_000 }, { runner, log: createRunLog(false) }, Date.now() + 1000);
+
+        expect(runner.run.mock.calls[0][0].timeoutMs).toBeLessThanOrEqual(1000);
+    });
+});
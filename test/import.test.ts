@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { installAndImport } from '../src/import';
+import { ModuleInstallError } from '../src/errors';
+import { resolvePackageEntry } from '../src/resolve';
+import type { CommandInvocation, CommandOutput } from '../src/runner';
+
+// Writes a package into <dir>/node_modules/<name>
+async function writePackage(dir: string, manifest: Record<string, unknown>, files: Record<string, string>) {
+    const path = join(dir, 'node_modules', manifest.name as string);
+    await mkdir(path, { recursive: true });
+    await writeFile(join(path, 'package.json'), JSON.stringify(manifest));
+    for (const [file, content] of Object.entries(files)) {
+        await mkdir(join(path, file, '..'), { recursive: true });
+        await writeFile(join(path, file), content);
+    }
+    return path;
+}
+
+describe('installAndImport', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    // Fake runner "installing" an ES module package on every call
+    function createRunner(version = '1.0.0') {
+        return {
+            run: vi.fn(async (_: CommandInvocation): Promise<CommandOutput> => {
+                await writePackage(dir, {
+                    name: 'esm-plugin',
+                    version,
+                    type: 'module',
+                    exports: { '.': { import: './index.js', require: './index.cjs' }, './tools/*': './lib/*.js' }
+                }, {
+                    'index.js': `export const version = '${version}';\nexport default 'esm';\n`,
+                    'lib/format.js': 'export const format = value => `[${value}]`;\n'
+                });
+                return { exitCode: 0, stdout: '', stderr: '' };
+            })
+        };
+    }
+
+    it('should install a missing ES module and return its namespace', async () => {
+        const runner = createRunner();
+
+        const plugin = await installAndImport<{ version: string; default: string }>('esm-plugin@^1.0.0', { runner, verbose: false });
+
+        expect(runner.run).toHaveBeenCalledWith(expect.objectContaining({ args: ['install', 'esm-plugin@^1.0.0'], cwd: dir }));
+        expect(plugin.version).toBe('1.0.0');
+        expect(plugin.default).toBe('esm');
+    });
+
+    it('should load a CommonJS package that is already installed without installing it', async () => {
+        await writePackage(dir, { name: 'cjs-plugin', version: '2.1.0', main: 'lib/main' }, {
+            'lib/main.js': 'module.exports = { greet: name => `hello ${name}` };\n'
+        });
+        const runner = createRunner();
+
+        const plugin = await installAndImport<{ default: { greet(name: string): string } }>({ name: 'cjs-plugin', version: '^2.0.0' }, { runner, verbose: false });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(plugin.default.greet('you')).toBe('hello you');
+    });
+
+    it('should load subpaths through export patterns', async () => {
+        const plugin = await installAndImport<{ format(value: string): string }>('esm-plugin', { runner: createRunner(), verbose: false, subpath: 'tools/format' });
+
+        expect(plugin.format('x')).toBe('[x]');
+    });
+
+    it('should share one install between identical concurrent calls', async () => {
+        const runner = createRunner();
+
+        const [first, second] = await Promise.all([
+            installAndImport('esm-plugin', { runner, verbose: false }),
+            installAndImport('esm-plugin', { runner, verbose: false })
+        ]);
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(first).toBe(second);
+    });
+
+    it('should load the new version after an upgrade', async () => {
+        const first = await installAndImport<{ version: string }>('esm-plugin@1.0.0', { runner: createRunner('1.0.0'), verbose: false });
+        const second = await installAndImport<{ version: string }>('esm-plugin@2.0.0', { runner: createRunner('2.0.0'), verbose: false });
+
+        expect(first.version).toBe('1.0.0');
+        expect(second.version).toBe('2.0.0');
+    });
+
+    it('should reject with a ModuleInstallError when the install fails', async () => {
+        const runner = { run: vi.fn(async () => ({ exitCode: 1, stdout: '', stderr: 'npm ERR! code E404' })) };
+
+        const imported = installAndImport('missing-plugin', { runner, verbose: false });
+
+        await expect(imported).rejects.toBeInstanceOf(ModuleInstallError);
+        await expect(imported).rejects.toMatchObject({
+            message: expect.stringContaining('Could not install missing-plugin'),
+            error: { code: 'E404' },
+            result: { success: false }
+        });
+    });
+
+    it('should reject when the installed package does not expose the subpath', async () => {
+        await expect(installAndImport('esm-plugin', { runner: createRunner(), verbose: false, subpath: 'private' }))
+            .rejects.toThrow(`Could not resolve esm-plugin/private in ${dir}`);
+    });
+});
+
+describe('resolvePackageEntry', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const pkg = (path: string, manifest: Record<string, unknown>) =>
+        ({ name: manifest.name as string, version: '1.0.0', path, manifest });
+
+    it('should prefer the import condition and fall back to default', async () => {
+        const manifest = { name: 'dual', exports: { require: './index.cjs', import: './index.mjs' } };
+        const path = await writePackage(dir, manifest, { 'index.cjs': '', 'index.mjs': '' });
+        expect(await resolvePackageEntry(pkg(path, manifest))).toBe(join(path, 'index.mjs'));
+
+        const fallback = { name: 'fallback', exports: { '.': [{ browser: './browser.js' }, { default: './node.js' }] } };
+        const fallbackPath = await writePackage(dir, fallback, { 'node.js': '' });
+        expect(await resolvePackageEntry(pkg(fallbackPath, fallback))).toBe(join(fallbackPath, 'node.js'));
+    });
+
+    it('should resolve main and index files like require', async () => {
+        const manifest = { name: 'legacy', main: 'lib' };
+        const path = await writePackage(dir, manifest, { 'lib/index.js': '' });
+        expect(await resolvePackageEntry(pkg(path, manifest))).toBe(join(path, 'lib', 'index.js'));
+    });
+
+    it('should never resolve outside the package', async () => {
+        const manifest = { name: 'escape', main: '../../outside.js', exports: undefined };
+        const path = await writePackage(dir, manifest, {});
+        await writeFile(join(dir, 'outside.js'), '');
+        expect(await resolvePackageEntry(pkg(path, manifest))).toBeNull();
+
+        const exported = { name: 'escape-exports', exports: { './x': './../../outside.js' } };
+        const exportedPath = await writePackage(dir, exported, {});
+        expect(await resolvePackageEntry(pkg(exportedPath, exported), 'x')).toBeNull();
+    });
+});
@@ -1,9 +1,25 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { exec } from 'child_process';
-import { installDependencies, type InstallOptions } from '../src/index';
+import {
+    installDependencies,
+    planInstallation,
+    type InstallOptions,
+    type InstallEvent,
+    type CommandInvocation,
+    type CommandOutput
+} from '../src/index';
+
+const ok = (stdout = 'success'): CommandOutput => ({ exitCode: 0, stdout, stderr: '' });
+const fail = (message: string, stderr = ''): CommandOutput => ({
+    exitCode: 1,
+    stdout: '',
+    stderr,
+    error: new Error(message)
+});
 
-// Mock child_process
-vi.mock('child_process');
+// Fake runner: records every invocation and answers through `impl`
+function createRunner(impl: (invocation: CommandInvocation) => CommandOutput = () => ok()) {
+    return { run: vi.fn(async (invocation: CommandInvocation) => impl(invocation)) };
+}
 
 describe('installDependencies', () => {
     beforeEach(() => {
@@ -16,15 +32,12 @@ describe('installDependencies', () => {
 
     describe('Basic Installation', () => {
         it('should install a single dependency successfully', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'added 1 package', '');
-                return {} as any;
-            });
+            const runner = createRunner(() => ok('added 1 package'));
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
@@ -36,11 +49,7 @@ describe('installDependencies', () => {
         });
 
         it('should install multiple dependencies', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'added 1 package', '');
-                return {} as any;
-            });
+            const runner = createRunner(() => ok('added 1 package'));
 
             const options: InstallOptions = {
                 dependencies: [
@@ -48,95 +57,274 @@ describe('installDependencies', () => {
                     { name: 'axios' },
                     { name: 'express' }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.success).toBe(true);
             expect(result.details).toHaveLength(3);
-            expect(mockExec).toHaveBeenCalledTimes(3);
+            expect(runner.run).toHaveBeenCalledTimes(3);
+        });
+
+        it('should build the command as an argv array instead of a shell string', async () => {
+            const runner = createRunner();
+
+            await installDependencies({
+                globalOptions: ['--save-dev'],
+                dependencies: [{ name: 'lodash' }],
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).toHaveBeenCalledWith(
+                expect.objectContaining({ command: 'npm', args: ['install', 'lodash', '--save-dev'] })
+            );
         });
     });
 
     describe('Global Options', () => {
         it('should apply global options to all dependencies by default', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const runner = createRunner();
 
             const options: InstallOptions = {
                 globalOptions: ['--save-dev'],
                 dependencies: [{ name: 'lodash' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             await installDependencies(options);
 
-            expect(mockExec).toHaveBeenCalledWith(
-                expect.stringContaining('--save-dev'),
-                expect.any(Function)
-            );
+            expect(runner.run.mock.calls[0][0].args).toContain('--save-dev');
         });
 
         it('should combine global and specific options when override is false', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const runner = createRunner();
 
             const options: InstallOptions = {
                 globalOptions: ['--save-dev'],
                 dependencies: [
                     { name: 'lodash', options: ['--no-save'], override: false }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             await installDependencies(options);
 
-            const callArg = mockExec.mock.calls[0][0] as string;
-            expect(callArg).toContain('--save-dev');
-            expect(callArg).toContain('--no-save');
+            const args = runner.run.mock.calls[0][0].args;
+            expect(args).toContain('--save-dev');
+            expect(args).toContain('--no-save');
         });
 
         it('should use only specific options when override is true', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const runner = createRunner();
 
             const options: InstallOptions = {
                 globalOptions: ['--save-dev'],
                 dependencies: [
                     { name: 'lodash', options: ['--no-save'], override: true }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             await installDependencies(options);
 
-            const callArg = mockExec.mock.calls[0][0] as string;
-            expect(callArg).not.toContain('--save-dev');
-            expect(callArg).toContain('--no-save');
+            const args = runner.run.mock.calls[0][0].args;
+            expect(args).not.toContain('--save-dev');
+            expect(args).toContain('--no-save');
+        });
+    });
+
+    describe('Package Managers', () => {
+        it('should translate options through the selected adapter', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                globalOptions: ['--save-dev'],
+                dependencies: [
+                    { name: 'lodash' },
+                    { name: 'react', options: ['--save-exact'], override: true }
+                ],
+                packageManager: 'pnpm',
+                verbose: false,
+                runner
+            });
+
+            expect(result.packageManager).toBe('pnpm');
+            expect(runner.run.mock.calls[0][0]).toMatchObject({ command: 'pnpm', args: ['add', 'lodash', '-D'] });
+            expect(runner.run.mock.calls[1][0]).toMatchObject({ command: 'pnpm', args: ['add', 'react', '-E'] });
+        });
+
+        it('should fail every dependency for an unsupported package manager', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }],
+                packageManager: 'cargo' as any,
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.details[0].message).toContain('Unsupported package manager');
+            expect(runner.run).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Batched Strategy', () => {
+        it('should group dependencies with identical effective options into one command', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                globalOptions: ['--save-dev'],
+                dependencies: [
+                    { name: 'lodash' },
+                    { name: 'react', options: ['--save-exact'] },
+                    { name: 'axios' },
+                    { name: 'vue', options: ['--save-dev'], override: true },
+                    { name: 'preact', options: ['--save-exact'] }
+                ],
+                strategy: 'batched',
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(true);
+            expect(runner.run.mock.calls.map(([invocation]) => invocation.args)).toEqual([
+                ['install', 'lodash', 'axios', 'vue', '--save-dev'],
+                ['install', 'react', 'preact', '--save-dev', '--save-exact']
+            ]);
+            expect(result.details.map(d => d.name)).toEqual(['lodash', 'react', 'axios', 'vue', 'preact']);
+        });
+
+        it('should map a failed batch to every member and keep validation failures separate', async () => {
+            const runner = createRunner(() => fail('npm ERR! 404'));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: '../evil' }, { name: 'no-such-pkg' }],
+                strategy: 'batched',
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).toHaveBeenCalledTimes(1);
+            expect(result.details.map(d => d.status)).toEqual(['failed', 'failed', 'failed']);
+            expect(result.details[0].message).toContain('npm ERR! 404');
+            expect(result.details[1].message).toContain('Invalid dependency name');
+            expect(result.details[2].message).toContain('npm ERR! 404');
+        });
+
+        it('should keep the error of the failing member and fail the others with BATCH_FAILED', async () => {
+            const runner = createRunner(({ args }) => fail(
+                `Command failed: npm ${args.join(' ')} (exit code 1)`,
+                "npm ERR! code E404\nnpm ERR! 404 Not Found - GET https://registry.npmjs.org/no-such-pkg - Not found\nnpm ERR! 404 'no-such-pkg@*' is not in this registry."
+            ));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: 'no-such-pkg' }, { name: 'pkg' }],
+                strategy: 'batched',
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).toHaveBeenCalledTimes(1);
+            expect(result.details.map(d => d.error?.code)).toEqual(['BATCH_FAILED', 'E404', 'BATCH_FAILED']);
+            expect(result.details[0].message).toBe('Batch failed because of no-such-pkg: Command failed: npm install lodash no-such-pkg pkg (exit code 1)');
+            expect(result.details[1].message).toBe('Command failed: npm install lodash no-such-pkg pkg (exit code 1)');
+            expect(result.details[2].error?.hint).toContain('Another package of the same batch');
+        });
+
+        it('should not put the same package twice in one batch', async () => {
+            const runner = createRunner();
+
+            await installDependencies({
+                dependencies: [{ name: 'lodash', version: '3' }, { name: 'lodash', version: '4' }],
+                strategy: 'batched',
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Timeouts and Cancellation', () => {
+        it('should pass per-dependency timeouts and the signal to the runner', async () => {
+            const runner = createRunner();
+            const controller = new AbortController();
+
+            await installDependencies({
+                dependencies: [{ name: 'lodash', timeoutMs: 5000 }, { name: 'axios' }],
+                signal: controller.signal,
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run.mock.calls[0][0]).toMatchObject({ timeoutMs: 5000, signal: controller.signal });
+            expect(runner.run.mock.calls[1][0].timeoutMs).toBeUndefined();
+        });
+
+        it('should skip the remaining dependencies once aborted', async () => {
+            const controller = new AbortController();
+            const runner = createRunner(() => {
+                controller.abort();
+                return { ...fail('Command aborted: npm install lodash'), aborted: true };
+            });
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: 'axios' }],
+                signal: controller.signal,
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).toHaveBeenCalledTimes(1);
+            expect(result.details[0]).toMatchObject({ status: 'failed', aborted: true, attempts: 1 });
+            expect(result.details[1]).toMatchObject({ status: 'skipped', aborted: true, message: 'Not installed: installation aborted' });
+        });
+
+        it('should skip dependencies once the run timeout has elapsed', async () => {
+            const runner = createRunner(() => ({ ...fail('Command timed out'), timedOut: true }));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: 'axios' }],
+                timeoutMs: 0,
+                verbose: false,
+                runner
+            });
+
+            expect(runner.run).not.toHaveBeenCalled();
+            expect(result.details.map(d => d.timedOut)).toEqual([true, true]);
+            expect(result.details[0].message).toBe('Not installed: installation timed out after 0ms');
+        });
+
+        it('should record retries on each result', async () => {
+            let calls = 0;
+            const runner = createRunner(() => (++calls === 1 ? fail('npm ERR! code EAI_AGAIN') : ok()));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }],
+                retry: { attempts: 2, delayMs: 0 },
+                verbose: false,
+                runner
+            });
+
+            expect(result.details[0]).toMatchObject({ success: true, attempts: 2 });
         });
     });
 
     describe('Error Handling', () => {
         it('should handle installation errors correctly', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(new Error('npm install failed'), '', 'error output');
-                return {} as any;
-            });
+            const runner = createRunner(() => fail('npm install failed', 'error output'));
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'invalid-package' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
@@ -146,17 +334,80 @@ describe('installDependencies', () => {
             expect(result.details[0].message).toContain('npm install failed');
         });
 
+        it('should treat a non-zero exit code without error as a failure', async () => {
+            const runner = createRunner(() => ({ exitCode: 1, stdout: '', stderr: 'boom' }));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }],
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.details[0].message).toContain('exit code 1');
+        });
+
+        it('should report a rejecting runner as a failed install', async () => {
+            const runner = { run: vi.fn().mockRejectedValue(new Error('container gone')) };
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }],
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.details[0].message).toContain('container gone');
+        });
+
+        it('should attach a typed error classified from the package manager output', async () => {
+            const runner = createRunner(() => ({
+                exitCode: 1,
+                stdout: '',
+                stderr: 'npm ERR! code ETARGET\nnpm ERR! notarget No matching version found for lodash@^99.0.0.'
+            }));
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash', version: '^99.0.0' }],
+                verbose: false,
+                runner
+            });
+
+            expect(result.details[0].error).toEqual({
+                code: 'ETARGET',
+                message: expect.stringContaining('exit code 1'),
+                exitCode: 1,
+                hint: expect.any(String)
+            });
+        });
+
+        it('should give validation failures their own codes', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                dependencies: [
+                    { name: 'Bad Name' },
+                    { name: 'lodash', version: 'not a range!' },
+                    { name: 'axios', options: ['--save; rm'] },
+                    { name: 'express' }
+                ],
+                verbose: false,
+                runner
+            });
+
+            expect(result.details.map(detail => detail.error?.code)).toEqual([
+                'INVALID_NAME',
+                'INVALID_VERSION',
+                'INVALID_OPTIONS',
+                undefined
+            ]);
+        });
+
         it('should continue installing other packages after one fails', async () => {
-            const mockExec = vi.mocked(exec);
             let callCount = 0;
-            mockExec.mockImplementation((cmd, callback: any) => {
+            const runner = createRunner(() => {
                 callCount++;
-                if (callCount === 1) {
-                    callback(new Error('first failed'), '', '');
-                } else {
-                    callback(null, 'success', '');
-                }
-                return {} as any;
+                return callCount === 1 ? fail('first failed') : ok();
             });
 
             const options: InstallOptions = {
@@ -164,7 +415,8 @@ describe('installDependencies', () => {
                     { name: 'invalid-package' },
                     { name: 'valid-package' }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
@@ -177,7 +429,7 @@ describe('installDependencies', () => {
 
     describe('Input Validation', () => {
         it('should reject invalid package names with special characters', async () => {
-            const mockExec = vi.mocked(exec);
+            const runner = createRunner();
 
             const options: InstallOptions = {
                 dependencies: [
@@ -185,14 +437,10 @@ describe('installDependencies', () => {
                     { name: 'invalid; rm -rf /' },
                     { name: 'malicious$(whoami)' }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
-
             const result = await installDependencies(options);
 
             expect(result.success).toBe(false);
@@ -202,17 +450,13 @@ describe('installDependencies', () => {
             expect(result.details[1].message).toContain('Invalid dependency name');
             expect(result.details[2].success).toBe(false);
             expect(result.details[2].message).toContain('Invalid dependency name');
-            
-            // Should only call exec for valid package
-            expect(mockExec).toHaveBeenCalledTimes(1);
+
+            // Should only run the command for the valid package
+            expect(runner.run).toHaveBeenCalledTimes(1);
         });
 
         it('should accept valid package names including scoped packages', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const runner = createRunner();
 
             const options: InstallOptions = {
                 dependencies: [
@@ -222,29 +466,66 @@ describe('installDependencies', () => {
                     { name: 'package_name' },
                     { name: 'package.name' }
                 ],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.success).toBe(true);
             expect(result.details.every(d => d.success)).toBe(true);
-            expect(mockExec).toHaveBeenCalledTimes(5);
+            expect(runner.run).toHaveBeenCalledTimes(5);
+        });
+    });
+
+    describe('Version Specifiers', () => {
+        it('should install pinned versions and typed sources', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                dependencies: [
+                    { name: 'lodash', version: '^4.17.0' },
+                    { name: 'react', source: { type: 'tag', tag: 'next' } },
+                    { name: 'legacy', source: { type: 'alias', package: 'lodash', version: '3' } }
+                ],
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(true);
+            expect(runner.run.mock.calls.map(([invocation]) => invocation.args[1]))
+                .toEqual(['lodash@^4.17.0', 'react@next', 'legacy@npm:lodash@3']);
+        });
+
+        it('should report a per-spec error for invalid versions and sources', async () => {
+            const runner = createRunner();
+
+            const result = await installDependencies({
+                dependencies: [
+                    { name: 'lodash', version: '^^4' },
+                    { name: 'evil', source: { type: 'tarball', url: 'ftp://host/evil.tgz' } },
+                    { name: 'lodash@^4.17.0' }
+                ],
+                verbose: false,
+                runner
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.details[0].message).toBe('Invalid version for dependency lodash: "^^4" is not a valid semver range');
+            expect(result.details[1].message).toBe('Invalid source for dependency evil: protocol ftp: is not allowed');
+            expect(result.details[2].message).toContain('version specifiers belong in the `version` field');
+            expect(runner.run).not.toHaveBeenCalled();
         });
     });
 
     describe('Verbose Option', () => {
         it('should respect verbose: false and not log to console', async () => {
             const consoleSpy = vi.spyOn(console, 'log');
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash' }],
-                verbose: false
+                verbose: false,
+                runner: createRunner()
             };
 
             await installDependencies(options);
@@ -254,16 +535,12 @@ describe('installDependencies', () => {
         });
 
         it('should log to console when verbose: true', async () => {
-            const consoleSpy = vi.spyOn(console, 'log');
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash' }],
-                verbose: true
+                verbose: true,
+                runner: createRunner()
             };
 
             await installDependencies(options);
@@ -273,15 +550,11 @@ describe('installDependencies', () => {
         });
 
         it('should default to verbose: true when not specified', async () => {
-            const consoleSpy = vi.spyOn(console, 'log');
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'success', '');
-                return {} as any;
-            });
+            const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
             const options: InstallOptions = {
-                dependencies: [{ name: 'lodash' }]
+                dependencies: [{ name: 'lodash' }],
+                runner: createRunner()
             };
 
             await installDependencies(options);
@@ -291,17 +564,71 @@ describe('installDependencies', () => {
         });
     });
 
-    describe('Logs', () => {
-        it('should capture logs in the result', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'package installed', '');
-                return {} as any;
+    describe('Events and Logger', () => {
+        it('should emit typed progress events in order, streaming output chunks', async () => {
+            const events: InstallEvent[] = [];
+            const runner = createRunner((invocation) => {
+                invocation.onStdout?.('resolving...');
+                invocation.onStderr?.('npm WARN deprecated');
+                return ok('added 1 package');
+            });
+
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: '../evil' }],
+                onEvent: event => events.push(event),
+                verbose: false,
+                runner
+            });
+
+            expect(events.map(event => event.type)).toEqual([
+                'run-start', 'dependency-end', 'dependency-start', 'stdout', 'stderr', 'dependency-end', 'run-end'
+            ]);
+            expect(events[0]).toEqual({ type: 'run-start', dependencies: ['lodash', '../evil'] });
+            expect(events[1]).toMatchObject({ type: 'dependency-end', name: '../evil', result: { status: 'failed' } });
+            expect(events[3]).toEqual({ type: 'stdout', dependencies: ['lodash'], chunk: 'resolving...' });
+            expect(events[5]).toMatchObject({ type: 'dependency-end', name: 'lodash', result: { status: 'installed' } });
+            expect(events[6]).toEqual({ type: 'run-end', result });
+        });
+
+        it('should keep installing when the event callback throws', async () => {
+            const result = await installDependencies({
+                dependencies: [{ name: 'lodash' }],
+                onEvent: () => { throw new Error('listener broke'); },
+                verbose: false,
+                runner: createRunner()
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.logsArray).toContain('onEvent callback threw: listener broke');
+        });
+
+        it('should send structured entries to the logger instead of the console', async () => {
+            const consoleSpy = vi.spyOn(console, 'log');
+            const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+            await installDependencies({
+                dependencies: [{ name: 'lodash' }, { name: '../evil' }],
+                logger,
+                runner: createRunner(() => fail('npm ERR! 404'))
             });
 
+            expect(consoleSpy).not.toHaveBeenCalled();
+            expect(logger.info).toHaveBeenCalledWith('command: npm install lodash', expect.objectContaining({
+                command: 'npm',
+                args: ['install', 'lodash']
+            }));
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid dependency name'), { dependency: '../evil', code: 'INVALID_NAME' });
+            expect(logger.error).toHaveBeenCalledWith('error: npm ERR! 404', expect.objectContaining({ error: 'npm ERR! 404' }));
+            expect(logger.debug).toHaveBeenCalledWith('stdout: ', expect.objectContaining({ stdout: '' }));
+        });
+    });
+
+    describe('Logs', () => {
+        it('should capture logs in the result', async () => {
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash' }],
-                verbose: false
+                verbose: false,
+                runner: createRunner(() => ok('package installed'))
             };
 
             const result = await installDependencies(options);
@@ -313,86 +640,96 @@ describe('installDependencies', () => {
     });
 
     describe('Injection & Edge Cases', () => {
-        it('[+] should accept directory traversal pattern "../evil" (reveals lax name validation)', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'added 1 package', '');
-                return {} as any;
-            });
+        it('[-] should reject directory traversal pattern "../evil"', async () => {
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
 
             const options: InstallOptions = {
                 dependencies: [{ name: '../evil' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.details).toHaveLength(1);
             expect(result.details[0].name).toBe('../evil');
-            expect(result.details[0].success).toBe(true);
-            expect(mockExec).toHaveBeenCalledTimes(1);
+            expect(result.details[0].success).toBe(false);
+            expect(result.details[0].message).toContain('Invalid dependency name');
+            expect(runner.run).not.toHaveBeenCalled();
         });
 
         it('[-] should reject uppercase long flags like "--Save"', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation(() => { throw new Error('exec should not be called'); });
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash', options: ['--Save'] }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.details[0].success).toBe(false);
             expect(result.details[0].message).toContain('Invalid options');
-            expect(mockExec).not.toHaveBeenCalled();
+            expect(runner.run).not.toHaveBeenCalled();
         });
 
         it('[-] should reject options containing dangerous metacharacters ("--no-save; rm -rf /")', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation(() => { throw new Error('exec should not be called'); });
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
 
             const options: InstallOptions = {
                 dependencies: [{ name: 'lodash', options: ['--no-save; rm -rf /'] }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.details[0].success).toBe(false);
             expect(result.details[0].message).toContain('Invalid options');
-            expect(mockExec).not.toHaveBeenCalled();
+            expect(runner.run).not.toHaveBeenCalled();
         });
 
-        it('[+] should accept scoped package with traversal "@scope/../evil" (reveals lax name validation)', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation((cmd, callback: any) => {
-                callback(null, 'added 1 package', '');
-                return {} as any;
-            });
+        it('[-] should reject scoped package with traversal "@scope/../evil"', async () => {
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
 
             const options: InstallOptions = {
                 dependencies: [{ name: '@scope/../evil' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
 
             expect(result.details).toHaveLength(1);
             expect(result.details[0].name).toBe('@scope/../evil');
-            expect(result.details[0].success).toBe(true);
-            expect(mockExec).toHaveBeenCalledTimes(1);
+            expect(result.details[0].success).toBe(false);
+            expect(result.details[0].message).toContain('Invalid dependency name');
+            expect(runner.run).not.toHaveBeenCalled();
+        });
+
+        it('[-] should reject names that would be parsed as flags ("--global")', async () => {
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
+
+            const result = await installDependencies({
+                dependencies: [{ name: '--global' }],
+                verbose: false,
+                runner
+            });
+
+            expect(result.details[0].success).toBe(false);
+            expect(result.details[0].message).toContain('Invalid dependency name');
+            expect(runner.run).not.toHaveBeenCalled();
         });
 
         it('[-] should reject invalid global options (should block all installs)', async () => {
-            const mockExec = vi.mocked(exec);
-            mockExec.mockImplementation(() => { throw new Error('exec should not be called'); });
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
 
             const options: InstallOptions = {
                 globalOptions: ['--save-dev', '; rm -rf /'],
                 dependencies: [{ name: 'lodash' }],
-                verbose: false
+                verbose: false,
+                runner
             };
 
             const result = await installDependencies(options);
@@ -400,7 +737,64 @@ describe('installDependencies', () => {
             expect(result.success).toBe(false);
             expect(result.details[0].success).toBe(false);
             expect(result.details[0].message).toContain('Invalid options');
-            expect(mockExec).not.toHaveBeenCalled();
+            expect(runner.run).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('planInstallation', () => {
+        it('should return the exact commands without executing anything', async () => {
+            const runner = createRunner(() => { throw new Error('runner should not be called'); });
+
+            const plan = await planInstallation({
+                globalOptions: ['--save-dev'],
+                dependencies: [
+                    { name: 'lodash', version: '^4.17.0' },
+                    { name: 'react', options: ['--save-exact'], override: true }
+                ],
+                packageManager: 'pnpm',
+                runner
+            });
+
+            expect(plan).toEqual({
+                valid: true,
+                packageManager: 'pnpm',
+                cwd: process.cwd(),
+                commands: [
+                    { command: 'pnpm', args: ['add', 'lodash@^4.17.0', '-D'], cwd: process.cwd(), dependencies: ['lodash'] },
+                    { command: 'pnpm', args: ['add', 'react', '-E'], cwd: process.cwd(), dependencies: ['react'] }
+                ],
+                failures: []
+            });
+            expect(runner.run).not.toHaveBeenCalled();
+        });
+
+        it('should report validation failures next to the valid commands', async () => {
+            const plan = await planInstallation({
+                globalOptions: ['--save-dev'],
+                dependencies: [
+                    { name: 'lodash' },
+                    { name: '../evil' },
+                    { name: 'axios', options: ['--Save'] },
+                    { name: 'express' }
+                ],
+                strategy: 'batched'
+            });
+
+            expect(plan.valid).toBe(false);
+            expect(plan.commands).toHaveLength(1);
+            expect(plan.commands[0]).toMatchObject({ args: ['install', 'lodash', 'express', '--save-dev'] });
+            expect(plan.failures).toEqual([
+                { name: '../evil', message: expect.stringContaining('Invalid dependency name'), code: 'INVALID_NAME' },
+                { name: 'axios', message: 'Invalid options for dependency: axios', code: 'INVALID_OPTIONS' }
+            ]);
+        });
+
+        it('should not log to the console', async () => {
+            const consoleSpy = vi.spyOn(console, 'log');
+
+            await planInstallation({ dependencies: [{ name: 'lodash' }] });
+
+            expect(consoleSpy).not.toHaveBeenCalled();
         });
     });
 });
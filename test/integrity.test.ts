@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { validatePin, verifyPin } from '../src/integrity';
+import { installDependencies, ensureDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+
+const sri = (content: string) => `sha512-${createHash('sha512').update(content).digest('base64')}`;
+const GOOD = sri('plugin-1.2.3.tgz');
+const EVIL = sri('tampered.tgz');
+
+describe('validatePin', () => {
+    it.each([
+        [{ integrity: 'sha1-abc' }, undefined, 'integrity must be a sha512 SRI string'],
+        [{ integrity: `${GOOD} ${EVIL}` }, undefined, 'integrity must be a sha512 SRI string'],
+        [{ expectedVersion: '^1.2.3' }, undefined, 'expectedVersion must be an exact version'],
+        [{ expectedVersion: '2.0.0' }, '^1.2.0', 'expectedVersion 2.0.0 does not satisfy version ^1.2.0']
+    ])('should reject %j with range %s', (pin, range, reason) => {
+        expect(validatePin(pin, range)).toContain(reason);
+    });
+
+    it('should accept a sha512 SRI and an exact version within the range', () => {
+        expect(validatePin({ integrity: GOOD, expectedVersion: '1.2.3' }, '^1.2.0')).toBeNull();
+    });
+});
+
+describe('installDependencies with pins', () => {
+    let dir: string;
+
+    // Fake runner simulating npm: installs the plugin with the given integrity, removes it on uninstall
+    function createRunner(integrity: string | undefined, version = '1.2.3') {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                if (args[0] === 'uninstall') {
+                    await rm(join(dir, 'node_modules', 'plugin'), { recursive: true, force: true });
+                    return { exitCode: 0, stdout: 'removed 1 package', stderr: '' };
+                }
+                await mkdir(join(dir, 'node_modules', 'plugin'), { recursive: true });
+                await writeFile(join(dir, 'node_modules', 'plugin', 'package.json'), JSON.stringify({ name: 'plugin', version }));
+                await writeFile(join(dir, 'package-lock.json'), JSON.stringify({
+                    lockfileVersion: 3,
+                    packages: { '': { name: 'app' }, 'node_modules/plugin': { version, integrity } }
+                }));
+                return { exitCode: 0, stdout: 'added 1 package', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should accept a package matching its pin', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', version: '^1.2.0', integrity: GOOD, expectedVersion: '1.2.3' }],
+            verbose: false,
+            runner: createRunner(GOOD)
+        });
+
+        expect(result.details[0]).toMatchObject({ success: true, status: 'installed', version: '1.2.3' });
+        expect(result.logs).toContain('verified: plugin');
+    });
+
+    it('should fail a package whose lockfile entry does not match', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', integrity: GOOD, expectedVersion: '1.2.3' }],
+            verbose: false,
+            runner: createRunner(EVIL, '1.2.4')
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.details[0].error?.code).toBe('INTEGRITY_MISMATCH');
+        expect(result.details[0].message).toBe(`Integrity check failed for dependency plugin: node_modules has plugin@1.2.4, expected 1.2.3; ` +
+            `package-lock.json has plugin@1.2.4, expected 1.2.3; package-lock.json records integrity ${EVIL} for plugin, expected ${GOOD}`);
+    });
+
+    it('should fail a pinned package when nothing records its integrity', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', integrity: GOOD }],
+            verbose: false,
+            runner: createRunner(undefined)
+        });
+
+        expect(result.details[0].message).toContain('no integrity is recorded for plugin');
+    });
+
+    it('should uninstall a mismatching package when asked to', async () => {
+        const runner = createRunner(EVIL);
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', integrity: GOOD }],
+            onIntegrityMismatch: 'uninstall',
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['install', 'plugin'], ['uninstall', 'plugin']]);
+        expect(result.details[0].message).toMatch(/; uninstalled it$/);
+        expect(await verifyPin('plugin', { integrity: GOOD }, dir)).toEqual([`plugin is not installed in ${join(dir, 'node_modules')}`]);
+    });
+
+    it('should reject invalid pins before running anything', async () => {
+        const runner = createRunner(GOOD);
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', integrity: 'sha512-short' }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].error?.code).toBe('INVALID_INTEGRITY');
+    });
+
+    it('should reject integrity pins with package managers other than npm', async () => {
+        const runner = createRunner(GOOD);
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', integrity: GOOD }, { name: 'other', expectedVersion: '1.0.0' }],
+            packageManager: 'pnpm',
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['add', 'other']]);
+        expect(result.details[0].error?.code).toBe('INVALID_INTEGRITY');
+        expect(result.details[0].message).toBe('Invalid pin for dependency plugin: integrity can only be checked with npm, not pnpm');
+    });
+
+    it('should reinstall an installed package that no longer matches its pin', async () => {
+        await createRunner(EVIL).run({ command: 'npm', args: ['install', 'plugin'] });
+        const runner = createRunner(GOOD);
+
+        const result = await ensureDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', version: '^1.0.0', integrity: GOOD }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(result.details[0]).toMatchObject({ success: true, status: 'upgraded' });
+    });
+});
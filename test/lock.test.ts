@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'child_process';
+import { access, mkdir, mkdtemp, readdir, readFile, rename, rm, utimes, writeFile } from 'fs/promises';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import { acquireLock, LOCK_FILE } from '../src/lock';
+import { installDependencies, ensureDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+
+vi.mock('fs/promises', async importOriginal => {
+    const actual = await importOriginal<typeof import('fs/promises')>();
+    return { ...actual, rename: vi.fn(actual.rename) };
+});
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+describe('acquireLock', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should hold the directory until released', async () => {
+        const first = await acquireLock(dir);
+        expect(first.acquired).toBe(true);
+        expect(JSON.parse(await readFile(join(dir, LOCK_FILE), 'utf8'))).toMatchObject({ pid: process.pid, hostname: hostname() });
+
+        const second = await acquireLock(dir, { onLocked: 'fail' });
+        expect(second).toMatchObject({ acquired: false, holder: { pid: process.pid } });
+        expect(!second.acquired && second.message).toMatch(/is locked by process \d+ on /);
+
+        if (first.acquired) await first.lock.release();
+        expect(await exists(join(dir, LOCK_FILE))).toBe(false);
+    });
+
+    it('should wait for the lock and give up after the wait timeout', async () => {
+        const first = await acquireLock(dir);
+
+        const timedOut = await acquireLock(dir, { waitTimeoutMs: 150 });
+        expect(!timedOut.acquired && timedOut.message).toContain('gave up after waiting 150ms');
+
+        const waiting = acquireLock(dir, { waitTimeoutMs: 5000 });
+        setTimeout(() => first.acquired && first.lock.release(), 150);
+        const second = await waiting;
+        expect(second.acquired).toBe(true);
+        if (second.acquired) await second.lock.release();
+    });
+
+    it('should take over a lock that was not refreshed', async () => {
+        await writeFile(join(dir, LOCK_FILE), JSON.stringify({ id: 'old', pid: 1, hostname: 'elsewhere', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+        const past = new Date(Date.now() - 60_000);
+        await utimes(join(dir, LOCK_FILE), past, past);
+
+        const attempt = await acquireLock(dir, { onLocked: 'fail', staleMs: 30_000 });
+
+        expect(attempt.acquired).toBe(true);
+        if (attempt.acquired) await attempt.lock.release();
+    });
+
+    it('should not remove a lock taken while removing a stale one', async () => {
+        const path = join(dir, LOCK_FILE);
+        await writeFile(path, JSON.stringify({ id: 'old', pid: 1, hostname: 'elsewhere', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+        const past = new Date(Date.now() - 60_000);
+        await utimes(path, past, past);
+        const actual = await vi.importActual<typeof import('fs/promises')>('fs/promises');
+        vi.mocked(rename).mockImplementationOnce(async (from, to) => {
+            // Another run removes the stale lock and takes the directory first
+            await actual.rm(from);
+            await actual.writeFile(from, JSON.stringify({ id: 'fresh', pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+            return actual.rename(from, to);
+        });
+
+        const attempt = await acquireLock(dir, { onLocked: 'fail', staleMs: 30_000 });
+
+        expect(attempt).toMatchObject({ acquired: false, holder: { id: 'fresh' } });
+        expect(JSON.parse(await readFile(path, 'utf8')).id).toBe('fresh');
+        expect(await readdir(dir)).toEqual([LOCK_FILE]);
+    });
+
+    it('should wait for another process and take over once it is gone', async () => {
+        // A child process holding the lock, exiting without releasing it
+        const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 300)'], { stdio: 'ignore' });
+        await writeFile(join(dir, LOCK_FILE), JSON.stringify({
+            id: 'child',
+            pid: child.pid,
+            hostname: hostname(),
+            acquiredAt: new Date().toISOString()
+        }));
+        const exited = new Promise(resolve => child.on('exit', resolve));
+
+        expect((await acquireLock(dir, { onLocked: 'fail' })).acquired).toBe(false);
+        const attempt = await acquireLock(dir, { waitTimeoutMs: 10_000 });
+        await exited;
+
+        expect(attempt.acquired).toBe(true);
+        if (attempt.acquired) await attempt.lock.release();
+    });
+});
+
+describe('installDependencies with a lock', () => {
+    let dir: string;
+
+    // Fake runner recording whether the directory was locked while it ran
+    function createRunner(locked: boolean[] = []) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                locked.push(await exists(join(dir, LOCK_FILE)));
+                await new Promise(resolve => setTimeout(resolve, 50));
+                const name = args[1].split('@')[0];
+                await mkdir(join(dir, 'node_modules', name), { recursive: true });
+                await writeFile(join(dir, 'node_modules', name, 'package.json'), JSON.stringify({ name, version: '1.0.0' }));
+                return { exitCode: 0, stdout: 'added 1 package', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should hold the lock while commands run', async () => {
+        const locked: boolean[] = [];
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'lodash' }], lock: true, verbose: false, runner: createRunner(locked) });
+
+        expect(result.success).toBe(true);
+        expect(locked).toEqual([true]);
+        expect(await exists(join(dir, LOCK_FILE))).toBe(false);
+    });
+
+    it.each([
+        ['fail', 'failed', 'is locked by process'],
+        ['skip', 'skipped', 'Not installed: ']
+    ] as const)('should %s when the directory is locked', async (onLocked, status, message) => {
+        const held = await acquireLock(dir);
+        const runner = createRunner();
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'lodash' }], lock: { onLocked }, verbose: false, runner });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0]).toMatchObject({ success: false, status, error: { code: 'LOCKED' } });
+        expect(result.details[0].message).toContain(message);
+        if (held.acquired) await held.lock.release();
+    });
+
+    it('should stop waiting for the lock when the run runs out of time', async () => {
+        const held = await acquireLock(dir);
+        const runner = createRunner();
+        const started = Date.now();
+
+        const results = await Promise.all([
+            installDependencies({ cwd: dir, dependencies: [{ name: 'lodash' }], lock: true, timeoutMs: 300, verbose: false, runner }),
+            ensureDependencies({ cwd: dir, dependencies: [{ name: 'axios' }], lock: true, timeoutMs: 300, verbose: false, runner })
+        ]);
+
+        expect(Date.now() - started).toBeLessThan(2000);
+        expect(runner.run).not.toHaveBeenCalled();
+        for (const result of results) {
+            expect(result.details[0]).toMatchObject({ success: false, status: 'failed', timedOut: true, error: { code: 'TIMEOUT' } });
+            expect(result.details[0].message).toMatch(/is locked by process \d+ .*; stopped waiting: the run ran out of time$/);
+        }
+        if (held.acquired) await held.lock.release();
+    });
+
+    it('should share one run between identical concurrent calls', async () => {
+        const runner = createRunner();
+        const options = { cwd: dir, dependencies: [{ name: 'lodash' }], verbose: false, runner };
+
+        const [first, second, other] = await Promise.all([
+            installDependencies(options),
+            installDependencies({ ...options, dependencies: [{ name: 'lodash' }] }),
+            installDependencies({ ...options, dependencies: [{ name: 'axios' }] })
+        ]);
+
+        expect(runner.run).toHaveBeenCalledTimes(2);
+        expect(second).toBe(first);
+        expect(other.details[0].name).toBe('axios');
+
+        await installDependencies(options);
+        expect(runner.run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should let a waiting ensureDependencies see what the locked run installed', async () => {
+        const runner = createRunner();
+        const options = { cwd: dir, dependencies: [{ name: 'lodash', version: '^1.0.0' }], lock: true, verbose: false, runner };
+
+        const [first, second] = await Promise.all([ensureDependencies(options), ensureDependencies({ ...options })]);
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(first.details[0].status).toBe('installed');
+        expect(second.details[0].status).toBe('already-satisfied');
+    });
+});
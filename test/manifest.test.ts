@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadManifest, resolveProfile, validateManifest, ManifestError, type Manifest } from '../src/manifest';
+
+const manifest: Manifest = {
+    globalOptions: ['--no-save'],
+    packageManager: 'pnpm',
+    dependencies: [{ name: 'lodash', version: '^4.17.0' }],
+    profiles: {
+        dev: { dependencies: [{ name: 'vitest', options: ['-D'] }] },
+        ci: { globalOptions: ['--ignore-scripts'], strategy: 'batched' }
+    }
+};
+
+describe('resolveProfile', () => {
+    it('should use the top-level settings without a profile', () => {
+        expect(resolveProfile(manifest)).toEqual({
+            globalOptions: ['--no-save'],
+            packageManager: 'pnpm',
+            dependencies: [{ name: 'lodash', version: '^4.17.0' }]
+        });
+    });
+
+    it('should append profile dependencies and replace the settings the profile sets', () => {
+        expect(resolveProfile(manifest, 'dev').dependencies).toEqual([
+            { name: 'lodash', version: '^4.17.0' },
+            { name: 'vitest', options: ['-D'] }
+        ]);
+        expect(resolveProfile(manifest, 'ci')).toMatchObject({
+            globalOptions: ['--ignore-scripts'],
+            packageManager: 'pnpm',
+            strategy: 'batched'
+        });
+    });
+
+    it('should reject unknown profiles', () => {
+        expect(() => resolveProfile(manifest, 'prod')).toThrow('Unknown profile: prod (available: dev, ci)');
+        expect(() => resolveProfile(manifest, 'constructor')).toThrow(ManifestError);
+    });
+});
+
+describe('validateManifest', () => {
+    it.each([
+        [[], 'the manifest must be an object'],
+        [{ globalOptions: '--no-save' }, 'the manifest.globalOptions must be an array of strings'],
+        [{ dependencies: [{ version: '1.0.0' }] }, 'the manifest.dependencies[0] must be an object with a name'],
+        [{ profiles: { dev: { dependencies: 'lodash' } } }, 'profiles.dev.dependencies must be an array']
+    ])('should reject %j', (input, message) => {
+        expect(() => validateManifest(input)).toThrow(`Invalid manifest: ${message}`);
+    });
+});
+
+describe('loadManifest', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read a JSON manifest', async () => {
+        const path = join(dir, 'dynamic-installer.json');
+        await writeFile(path, JSON.stringify(manifest));
+
+        expect(await loadManifest(path)).toEqual(manifest);
+    });
+
+    it('should report unreadable and malformed files', async () => {
+        const path = join(dir, 'broken.json');
+        await writeFile(path, '{ "dependencies": [');
+
+        await expect(loadManifest(path)).rejects.toThrow(`Could not parse ${path}`);
+        await expect(loadManifest(join(dir, 'missing.json'))).rejects.toThrow(ManifestError);
+    });
+
+    it('should explain what YAML manifests need when no YAML parser is installed', async () => {
+        const path = join(dir, 'dynamic-installer.yaml');
+        await writeFile(path, 'dependencies:\n  - name: lodash\n');
+
+        await expect(loadManifest(path)).rejects.toThrow('requires the "yaml" or "js-yaml" package');
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    uninstallDependencies,
+    updateDependencies,
+    cleanInstall,
+    type CommandInvocation,
+    type CommandOutput
+} from '../src/index';
+
+describe('uninstall, update and clean install', () => {
+    let dir: string;
+
+    // Writes the hidden lockfile npm keeps in node_modules
+    async function writeTree(packages: Record<string, string>) {
+        await writeFile(join(dir, 'node_modules', '.package-lock.json'), JSON.stringify({
+            lockfileVersion: 3,
+            packages: Object.fromEntries(Object.entries(packages).map(([name, version]) => [`node_modules/${name}`, { version }]))
+        }));
+    }
+
+    // Fake runner applying `after` to the installed tree, or failing
+    function createRunner(after: Record<string, string> = {}, exitCode = 0) {
+        return {
+            run: vi.fn(async (_: CommandInvocation): Promise<CommandOutput> => {
+                if (exitCode !== 0) return { exitCode, stdout: '', stderr: 'npm ERR! code EUSAGE' };
+                await writeTree(after);
+                return { exitCode: 0, stdout: 'done', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await mkdir(join(dir, 'node_modules'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'plugin-host', dependencies: { lodash: '^4.17.0', axios: '^1.0.0' } }));
+        await writeTree({ lodash: '4.17.20', axios: '1.5.0' });
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should uninstall dependencies with merged options', async () => {
+        const runner = createRunner({ axios: '1.5.0' });
+
+        const result = await uninstallDependencies({
+            cwd: dir,
+            globalOptions: ['--no-audit'],
+            dependencies: [{ name: 'lodash', flags: { saveDev: true } }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls[0][0].args).toEqual(['uninstall', 'lodash', '--no-audit', '--save-dev']);
+        expect(result.details[0]).toMatchObject({ success: true, status: 'uninstalled', previousVersion: '4.17.20' });
+        expect(result.changes).toEqual([{ name: 'lodash', type: 'removed', from: '4.17.20', direct: true, path: 'node_modules/lodash' }]);
+    });
+
+    it('should update dependencies in one batch and report their versions', async () => {
+        const runner = createRunner({ lodash: '4.17.21', axios: '1.6.0' });
+
+        const result = await updateDependencies({
+            cwd: dir,
+            packageManager: 'yarn',
+            strategy: 'batched',
+            dependencies: [{ name: 'lodash' }, { name: 'axios' }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['upgrade', 'lodash', 'axios']]);
+        expect(result.details).toMatchObject([
+            { status: 'updated', version: '4.17.21', previousVersion: '4.17.20' },
+            { status: 'updated', version: '1.6.0', previousVersion: '1.5.0' }
+        ]);
+    });
+
+    it('should address dependencies by name only when uninstalling or updating', async () => {
+        const runner = createRunner();
+
+        const result = await updateDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'lodash', version: '^5.0.0' }, { name: 'axios', source: { type: 'tag', tag: 'next' } }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details.map(detail => detail.error?.code)).toEqual(['INVALID_VERSION', 'INVALID_SOURCE']);
+        expect(result.details[0].message).toBe('Invalid version for dependency lodash: update uses the range in package.json, `version` only applies to installs');
+    });
+
+    it('should only enforce the flags of a policy when uninstalling', async () => {
+        const runner = createRunner();
+
+        const result = await uninstallDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'left-pad' }, { name: 'lodash', options: ['-g'] }],
+            policy: { deny: ['left-pad'], forbiddenFlags: ['--global'] },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['uninstall', 'left-pad']]);
+        expect(result.details[1].error?.code).toBe('POLICY_VIOLATION');
+    });
+
+    it('should restore the project from its lockfile', async () => {
+        const runner = createRunner({ lodash: '4.17.20', axios: '1.5.0', 'follow-redirects': '1.15.6' });
+
+        const result = await cleanInstall({ cwd: dir, flags: { audit: false }, verbose: false, runner });
+
+        expect(runner.run.mock.calls[0][0].args).toEqual(['ci', '--no-audit']);
+        expect(result.success).toBe(true);
+        expect(result.details).toEqual([expect.objectContaining({ name: 'plugin-host', success: true, status: 'installed' })]);
+        expect(result.changes?.map(change => change.name)).toEqual(['follow-redirects']);
+    });
+
+    it('should fail the clean install with the package-manager error', async () => {
+        const result = await cleanInstall({ cwd: dir, packageManager: 'pnpm', verbose: false, runner: createRunner({}, 1) });
+
+        expect(result.success).toBe(false);
+        expect(result.details[0]).toMatchObject({ name: 'plugin-host', status: 'failed' });
+    });
+
+    it('should reject adapters without the operation', async () => {
+        const runner = createRunner();
+        const adapter = { name: 'custom', command: 'custom', installArgs: (specs: string[]) => ['add', ...specs], syncArgs: () => ['install'] };
+
+        const result = await updateDependencies({ cwd: dir, packageManager: adapter, dependencies: [{ name: 'lodash' }], verbose: false, runner });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].error?.code).toBe('UNSUPPORTED_PACKAGE_MANAGER');
+        expect(result.details[0].message).toBe('The custom adapter does not support update: it has no updateArgs');
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { orderDependencies, validateDependsOn } from '../src/order';
+import { installDependencies, ensureDependencies, planInstallation, type CommandInvocation, type CommandOutput, type Dependency } from '../src/index';
+
+describe('orderDependencies', () => {
+    const all = (deps: Dependency[]) => deps.map((_, index) => index);
+
+    it('should keep array order except where dependsOn requires otherwise', () => {
+        const deps = [{ name: 'plugin', dependsOn: ['host'] }, { name: 'host' }, { name: 'other' }, { name: 'addon', dependsOn: ['plugin'] }];
+
+        expect(orderDependencies(deps, all(deps))).toEqual({ levels: [[1, 2], [0], [3]], cycles: new Map() });
+    });
+
+    it('should report cycles and still order what depends on them', () => {
+        const deps = [
+            { name: 'a', dependsOn: ['b'] },
+            { name: 'b', dependsOn: ['c'] },
+            { name: 'c', dependsOn: ['a'] },
+            { name: 'd', dependsOn: ['d'] },
+            { name: 'e', dependsOn: ['a'] },
+            { name: 'f' }
+        ];
+
+        const { levels, cycles } = orderDependencies(deps, all(deps));
+
+        expect(levels).toEqual([[4, 5]]);
+        expect(cycles).toEqual(new Map([
+            [0, ['a', 'b', 'c', 'a']],
+            [1, ['a', 'b', 'c', 'a']],
+            [2, ['a', 'b', 'c', 'a']],
+            [3, ['d', 'd']]
+        ]));
+    });
+
+    it.each([
+        ['plugin', 'dependsOn must be an array of names'],
+        [['host', 1], 'dependsOn must be an array of names'],
+        [['host', 'missing', 'gone'], 'missing, gone are not a dependency of this run']
+    ])('should reject dependsOn %j', (dependsOn, reason) => {
+        expect(validateDependsOn(dependsOn, new Set(['host']))).toBe(reason);
+    });
+});
+
+describe('installDependencies with dependsOn and onFailure', () => {
+    // Fake runner failing the packages listed in `failing`
+    function createRunner(failing: string[] = []) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => failing.includes(args[1])
+                ? { exitCode: 1, stdout: '', stderr: 'npm ERR! code E404' }
+                : { exitCode: 0, stdout: 'added 1 package', stderr: '' })
+        };
+    }
+
+    const dependencies: Dependency[] = [
+        { name: 'plugin', dependsOn: ['host'] },
+        { name: 'host' },
+        { name: 'logger' }
+    ];
+
+    it('should run dependencies after those they depend on', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({ dependencies, verbose: false, runner });
+
+        expect(runner.run.mock.calls.map(call => call[0].args[1])).toEqual(['host', 'logger', 'plugin']);
+        expect(result.details.map(detail => detail.name)).toEqual(['plugin', 'host', 'logger']);
+    });
+
+    it('should never batch a dependency with what it depends on', async () => {
+        const plan = await planInstallation({ dependencies, strategy: 'batched' });
+
+        expect(plan.commands.map(command => command.dependencies)).toEqual([['host', 'logger'], ['plugin']]);
+    });
+
+    it('should carry on after a failure by default', async () => {
+        const runner = createRunner(['host']);
+
+        const result = await installDependencies({ dependencies, verbose: false, runner });
+
+        expect(runner.run).toHaveBeenCalledTimes(3);
+        expect(result.details.map(detail => detail.status)).toEqual(['installed', 'failed', 'installed']);
+    });
+
+    it('should skip the rest after a failure with abort', async () => {
+        const runner = createRunner(['host']);
+
+        const result = await installDependencies({ dependencies, onFailure: 'abort', verbose: false, runner });
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(result.details.map(detail => detail.status)).toEqual(['skipped', 'failed', 'skipped']);
+        expect(result.details[2].message).toBe('Not installed: installation stopped after host failed');
+    });
+
+    it('should only skip what depends on a failure with skip-dependents', async () => {
+        const runner = createRunner(['host']);
+
+        const result = await installDependencies({
+            dependencies: [...dependencies, { name: 'theme', dependsOn: ['plugin'] }],
+            onFailure: 'skip-dependents',
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args[1])).toEqual(['host', 'logger']);
+        expect(result.details.map(detail => detail.status)).toEqual(['skipped', 'failed', 'installed', 'skipped']);
+        expect(result.details[0]).toMatchObject({ message: 'Not installed: depends on host, which did not succeed', error: { code: 'SKIPPED' } });
+        expect(result.details[3].message).toBe('Not installed: depends on plugin, which did not succeed');
+    });
+
+    it('should fail dependencies caught in a cycle and unknown names', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'a', dependsOn: ['b'] }, { name: 'b', dependsOn: ['a'] }, { name: 'c', dependsOn: ['missing'] }, { name: 'd' }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args[1])).toEqual(['d']);
+        expect(result.details.map(detail => detail.error?.code)).toEqual(['DEPENDENCY_CYCLE', 'DEPENDENCY_CYCLE', 'INVALID_DEPENDS_ON', undefined]);
+        expect(result.details[1].message).toBe('Dependency cycle for dependency b: a -> b -> a');
+    });
+
+    it('should not fail the run when an optional dependency fails', async () => {
+        const runner = createRunner(['logger']);
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'host' }, { name: 'logger', optional: true }, { name: 'plugin' }],
+            onFailure: 'abort',
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).toHaveBeenCalledTimes(3);
+        expect(result.success).toBe(true);
+        expect(result.details[1]).toMatchObject({ success: false, status: 'failed', optional: true });
+        expect(result.logs).toContain('optional dependency logger failed, continuing');
+    });
+
+    it('should let ensureDependencies depend on what is already satisfied', async () => {
+        const runner = createRunner();
+
+        const result = await ensureDependencies({
+            cwd: process.cwd(),
+            dependencies: [{ name: 'plugin-not-installed', dependsOn: ['vitest'] }, { name: 'vitest' }],
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args[1])).toEqual(['plugin-not-installed']);
+        expect(result.details.map(detail => detail.status)).toEqual(['installed', 'already-satisfied']);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getPackageManager, detectPackageManager, resolvePackageManager, isYarnBerry } from '../src/package-managers';
+
+describe('package manager adapters', () => {
+    it('should keep npm options untouched', () => {
+        const npm = getPackageManager('npm');
+        expect(npm.command).toBe('npm');
+        expect(npm.installArgs(['lodash'], ['--save-dev', '--no-save'])).toEqual(['install', 'lodash', '--save-dev', '--no-save']);
+    });
+
+    it('should translate npm flags for pnpm', () => {
+        const pnpm = getPackageManager('pnpm');
+        expect(pnpm.installArgs(['lodash'], ['--save-dev', '--save-exact', '--ignore-scripts']))
+            .toEqual(['add', 'lodash', '-D', '-E', '--ignore-scripts']);
+    });
+
+    it('should translate npm flags for yarn', () => {
+        const yarn = getPackageManager('yarn');
+        expect(yarn.installArgs(['a', 'b'], ['--save-dev', '-E'])).toEqual(['add', 'a', 'b', '--dev', '--exact']);
+    });
+
+    it('should translate npm flags for bun', () => {
+        const bun = getPackageManager('bun');
+        expect(bun.installArgs(['lodash'], ['-D', '--save-optional'])).toEqual(['add', 'lodash', '--dev', '--optional']);
+    });
+
+    it('should build uninstall, update, clean install and audit commands', () => {
+        expect(getPackageManager('npm').uninstallArgs!(['a', 'b'])).toEqual(['uninstall', 'a', 'b']);
+        expect(getPackageManager('pnpm').uninstallArgs!(['a'], ['--save-dev'])).toEqual(['remove', 'a', '-D']);
+        expect(getPackageManager('npm').updateArgs!(['a'])).toEqual(['update', 'a']);
+        expect(getPackageManager('yarn').updateArgs!(['a'])).toEqual(['upgrade', 'a']);
+        expect(getPackageManager('npm').cleanInstallArgs!(['--no-audit'])).toEqual(['ci', '--no-audit']);
+        expect(getPackageManager('bun').cleanInstallArgs!()).toEqual(['install', '--frozen-lockfile']);
+        expect(getPackageManager('pnpm').auditArgs!()).toEqual(['audit', '--json']);
+    });
+
+    it('should throw for unknown managers', () => {
+        expect(() => getPackageManager('cargo' as any)).toThrow('Unsupported package manager: cargo');
+        expect(() => getPackageManager('constructor' as any)).toThrow('Unsupported package manager');
+    });
+});
+
+describe('detectPackageManager', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should default to npm when nothing is found', async () => {
+        expect(await detectPackageManager(dir)).toBe('npm');
+    });
+
+    it('should detect the manager from lockfiles', async () => {
+        await writeFile(join(dir, 'pnpm-lock.yaml'), '');
+        expect(await detectPackageManager(dir)).toBe('pnpm');
+    });
+
+    it('should prefer the packageManager field over lockfiles', async () => {
+        await writeFile(join(dir, 'package-lock.json'), '{}');
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+        expect(await detectPackageManager(dir)).toBe('yarn');
+    });
+
+    it('should resolve "auto" and custom adapters', async () => {
+        await writeFile(join(dir, 'bun.lockb'), '');
+        expect((await resolvePackageManager('auto', dir)).name).toBe('bun');
+
+        const custom = {
+            name: 'custom',
+            command: 'custom-pm',
+            installArgs: (specs: string[]) => ['get', ...specs],
+            syncArgs: () => ['sync']
+        };
+        expect(await resolvePackageManager(custom, dir)).toBe(custom);
+    });
+
+    it('should detect Yarn 2+ from the packageManager field or a .yarnrc.yml', async () => {
+        expect(await isYarnBerry(dir)).toBe(false);
+        await writeFile(join(dir, '.yarnrc.yml'), 'nodeLinker: node-modules\n');
+        expect(await isYarnBerry(dir)).toBe(true);
+
+        // The field wins over the file
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ packageManager: 'yarn@1.22.19' }));
+        expect(await isYarnBerry(dir)).toBe(false);
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+        expect(await isYarnBerry(dir)).toBe(true);
+    });
+
+    it('should resolve Yarn 2+ to an adapter that does not read npm configuration', async () => {
+        expect((await resolvePackageManager('yarn', dir)).npmConfig).toBeUndefined();
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+        const berry = await resolvePackageManager('auto', dir);
+        expect(berry.name).toBe('yarn');
+        expect(berry.npmConfig).toBe(false);
+        expect(berry.installArgs(['a'], ['-D'])).toEqual(['add', 'a', '--dev']);
+        expect(berry.updateArgs!(['a'])).toEqual(['up', '--recursive', 'a']);
+        expect(berry.auditArgs).toBeUndefined();
+        expect(getPackageManager('bun').npmConfig).toBe(false);
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkPeers } from '../src/peers';
+import { installDependencies, type CommandInvocation, type CommandOutput } from '../src/index';
+
+describe('peer dependencies', () => {
+    let dir: string;
+
+    async function writePackage(name: string, version: string, fields: Record<string, unknown> = {}) {
+        await mkdir(join(dir, 'node_modules', name), { recursive: true });
+        await writeFile(join(dir, 'node_modules', name, 'package.json'), JSON.stringify({ name, version, ...fields }));
+    }
+
+    // Fake runner installing the plugin with its peers declared, and peers at the version they were asked for
+    function createRunner(peerVersions: Record<string, string> = {}, failPeers = false) {
+        return {
+            run: vi.fn(async ({ args }: CommandInvocation): Promise<CommandOutput> => {
+                for (const spec of args.slice(1).filter(arg => !arg.startsWith('-'))) {
+                    const name = spec.slice(0, spec.indexOf('@', 1) > 0 ? spec.indexOf('@', 1) : undefined);
+                    if (name === 'plugin') {
+                        await writePackage('plugin', '1.0.0', {
+                            peerDependencies: { host: '^2.0.0', helper: '>=1.0.0', typescript: '>=5' },
+                            peerDependenciesMeta: { typescript: { optional: true } }
+                        });
+                    } else if (failPeers) {
+                        return { exitCode: 1, stdout: '', stderr: `npm ERR! code ETARGET\nnpm ERR! notarget No matching version found for ${spec}` };
+                    } else {
+                        await writePackage(name, peerVersions[name] ?? '9.9.9');
+                    }
+                }
+                return { exitCode: 0, stdout: 'added 1 package', stderr: '' };
+            })
+        };
+    }
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should check installed peers against their ranges', async () => {
+        await writePackage('plugin', '1.0.0', {
+            peerDependencies: { host: '^2.0.0', helper: '^1.0.0', typescript: '>=5', react: '^18.0.0', local: 'workspace:*', '../evil': '*' },
+            peerDependenciesMeta: { typescript: { optional: true } }
+        });
+        await writePackage('host', '1.4.0');
+        await writePackage('helper', '1.2.0');
+        await writePackage('local', '0.0.1');
+
+        expect(await checkPeers('plugin', dir)).toEqual([
+            { name: 'host', range: '^2.0.0', optional: false, status: 'unresolved', version: '1.4.0', message: 'host@1.4.0 is installed, plugin needs ^2.0.0' },
+            { name: 'helper', range: '^1.0.0', optional: false, status: 'satisfied', version: '1.2.0' },
+            { name: 'typescript', range: '>=5', optional: true, status: 'missing-optional' },
+            { name: 'react', range: '^18.0.0', optional: false, status: 'unresolved', message: 'react@^18.0.0 is not installed' },
+            { name: 'local', range: 'workspace:*', optional: false, status: 'satisfied', version: '0.0.1' },
+            { name: '../evil', range: '*', optional: false, status: 'unresolved', message: '../evil@* is not installed' }
+        ]);
+    });
+
+    it('should return no peers for a package without any', async () => {
+        await writePackage('plain', '1.0.0');
+
+        expect(await checkPeers('plain', dir)).toEqual([]);
+        expect(await checkPeers('missing', dir)).toEqual([]);
+    });
+
+    it('should install unresolved peers with the options of the dependency', async () => {
+        await writePackage('helper', '1.0.0');
+        const runner = createRunner({ host: '2.3.0' });
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin', flags: { saveDev: true } }],
+            installPeers: true,
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([
+            ['install', 'plugin', '--save-dev'],
+            ['install', 'host@^2.0.0', '--save-dev']
+        ]);
+        expect(result.success).toBe(true);
+        expect(result.details[0].peers).toEqual([
+            { name: 'host', range: '^2.0.0', optional: false, status: 'installed', version: '2.3.0' },
+            { name: 'helper', range: '>=1.0.0', optional: false, status: 'satisfied', version: '1.0.0' },
+            { name: 'typescript', range: '>=5', optional: true, status: 'missing-optional' }
+        ]);
+    });
+
+    it('should leave peers installed out of range in place', async () => {
+        await writePackage('host', '1.4.0');
+        const runner = createRunner({ host: '2.3.0', helper: '1.0.0' });
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin' }],
+            installPeers: true,
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['install', 'plugin'], ['install', 'helper@>=1.0.0']]);
+        expect(result.success).toBe(false);
+        expect(result.details[0]).toMatchObject({ status: 'failed', error: { code: 'UNRESOLVED_PEERS' } });
+        expect(result.details[0].message).toBe('Unresolved peer dependencies of plugin: host@1.4.0 is installed, plugin needs ^2.0.0');
+        expect(result.details[0].peers?.find(peer => peer.name === 'host')).toMatchObject({ status: 'unresolved', version: '1.4.0' });
+    });
+
+    it('should fail the dependency when a peer cannot be installed', async () => {
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin' }],
+            installPeers: true,
+            verbose: false,
+            runner: createRunner({}, true)
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.details[0]).toMatchObject({ status: 'failed', error: { code: 'UNRESOLVED_PEERS' } });
+        expect(result.details[0].message).toMatch(/^Unresolved peer dependencies of plugin: Could not install host@\^2\.0\.0: /);
+    });
+
+    it('should hold peers to the install policy', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'plugin' }],
+            installPeers: true,
+            policy: { allow: ['plugin', 'helper'] },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run.mock.calls.map(call => call[0].args)).toEqual([['install', 'plugin'], ['install', 'helper@>=1.0.0']]);
+        expect(result.details[0].peers?.find(peer => peer.name === 'host')).toMatchObject({ status: 'unresolved' });
+        expect(result.details[0].message).toContain('host');
+    });
+
+    it('should only report unresolved peers in report mode', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'plugin' }], installPeers: 'report', verbose: false, runner });
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(result.details[0]).toMatchObject({ success: true, status: 'installed' });
+        expect(result.details[0].peers?.map(peer => peer.status)).toEqual(['unresolved', 'unresolved', 'missing-optional']);
+        expect(result.logs).toContain('unresolved peer of plugin: host@^2.0.0 is not installed');
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkPolicy, applyMandatoryFlags, validatePolicy, loadPolicy, type InstallPolicy } from '../src/policy';
+import { installDependencies, planInstallation, type CommandInvocation } from '../src/index';
+
+describe('checkPolicy', () => {
+    const policy: InstallPolicy = {
+        allow: ['@ourorg/*', 'lodash'],
+        deny: ['@ourorg/legacy-*'],
+        forbiddenFlags: ['--global'],
+        allowedSources: ['registry', 'tag']
+    };
+
+    it('should accept allowed packages', () => {
+        expect(checkPolicy({ name: '@ourorg/ui' }, ['--save-dev'], policy)).toEqual([]);
+        expect(checkPolicy({ name: 'lodash', source: { type: 'tag', tag: 'latest' } }, [], policy)).toEqual([]);
+    });
+
+    it('should report the rule of every violation', () => {
+        expect(checkPolicy({ name: 'axios', source: { type: 'git', url: 'github:axios/axios' } }, ['-gE'], policy)).toEqual([
+            { rule: 'allow', value: 'axios', message: 'axios does not match any allowed pattern' },
+            { rule: 'allowedSources', value: 'git', message: 'git sources are not allowed by policy' },
+            { rule: 'forbiddenFlags', value: '-gE', message: '-gE is forbidden by policy' }
+        ]);
+    });
+
+    it('should check deny before allow', () => {
+        expect(checkPolicy({ name: '@ourorg/legacy-api' }, [], policy)).toEqual([
+            { rule: 'deny', value: '@ourorg/legacy-*', message: '@ourorg/legacy-api is denied by policy pattern @ourorg/legacy-*' }
+        ]);
+    });
+
+    it('should check both names of an alias', () => {
+        const violations = checkPolicy({ name: 'lodash', source: { type: 'alias', package: 'evil-lodash' } }, [], {
+            allow: ['lodash']
+        });
+
+        expect(violations.map(violation => violation.value)).toEqual(['evil-lodash']);
+    });
+
+    it('should only let `*` match within a scope or name', () => {
+        expect(checkPolicy({ name: '@other/x' }, [], { allow: ['*'] })).toHaveLength(1);
+        expect(checkPolicy({ name: '@other/x' }, [], { allow: ['**'] })).toEqual([]);
+    });
+});
+
+describe('applyMandatoryFlags', () => {
+    it('should append missing mandatory flags only', () => {
+        const policy = { mandatoryFlags: ['--ignore-scripts', '--save-exact'] };
+
+        expect(applyMandatoryFlags(['-E'], policy)).toEqual(['-E', '--ignore-scripts']);
+    });
+});
+
+describe('validatePolicy', () => {
+    it.each([
+        [null, 'policy must be an object'],
+        [{ deny: 'lodash' }, 'deny must be an array of strings'],
+        [{ allowedSources: ['registry', 'ftp'] }, 'unknown source type in allowedSources: ftp'],
+        [{ forbiddenFlags: ['-g'], mandatoryFlags: ['--global'] }, 'mandatory flag --global is also forbidden']
+    ])('should reject %j', (policy, reason) => {
+        expect(validatePolicy(policy)).toContain(reason);
+    });
+});
+
+describe('installDependencies with a policy', () => {
+    let dir: string;
+
+    const createRunner = () => ({
+        run: vi.fn(async (_: CommandInvocation) => ({ exitCode: 0, stdout: '', stderr: '' }))
+    });
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should reject violating dependencies before building their commands', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            globalOptions: ['--save-dev'],
+            dependencies: [
+                { name: '@ourorg/ui' },
+                { name: 'left-pad' },
+                { name: '@ourorg/tools', options: ['-g'] }
+            ],
+            policy: { allow: ['@ourorg/*'], forbiddenFlags: ['--global'], mandatoryFlags: ['--ignore-scripts'] },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).toHaveBeenCalledTimes(1);
+        expect(runner.run.mock.calls[0][0].args).toEqual(['install', '@ourorg/ui', '--save-dev', '--ignore-scripts']);
+        expect(result.details[1].error).toMatchObject({
+            code: 'POLICY_VIOLATION',
+            violations: [{ rule: 'allow', value: 'left-pad' }]
+        });
+        expect(result.details[2].message).toBe('Policy violation for dependency @ourorg/tools: -g is forbidden by policy');
+    });
+
+    it('should load the policy from a file', async () => {
+        const path = join(dir, 'policy.json');
+        await writeFile(path, JSON.stringify({ allowedSources: ['registry'] }));
+
+        const plan = await planInstallation({
+            dependencies: [{ name: 'lodash' }, { name: 'local', source: { type: 'file', path: '../local' } }],
+            policy: path
+        });
+
+        expect(plan.commands.map(command => command.dependencies)).toEqual([['lodash']]);
+        expect(plan.failures).toEqual([
+            { name: 'local', message: expect.stringContaining('file sources are not allowed'), code: 'POLICY_VIOLATION' }
+        ]);
+    });
+
+    it('should fail every dependency when the policy is invalid', async () => {
+        const runner = createRunner();
+        await expect(loadPolicy(join(dir, 'missing.json'))).rejects.toThrow('Could not read');
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }],
+            policy: { mandatoryFlags: ['--ignore-scripts; rm -rf /'] },
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].error?.code).toBe('INVALID_POLICY');
+        expect(result.details[0].message).toBe('Invalid policy: mandatoryFlags must be valid option tokens');
+    });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { spawnRunner, formatInvocation } from '../src/runner';
+
+// Mock child_process
+vi.mock('child_process');
+
+// Minimal stand-in for a ChildProcess: stdout/stderr emitters plus process events
+function createChild() {
+    const child = new EventEmitter() as EventEmitter & {
+        stdout: EventEmitter;
+        stderr: EventEmitter;
+        kill: ReturnType<typeof vi.fn>;
+    };
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    child.kill = vi.fn((signal: string) => { child.emit('close', null, signal); });
+    return child;
+}
+
+describe('spawnRunner', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should spawn the command with argv and without a shell', async () => {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+
+        const pending = spawnRunner.run({ command: 'npm', args: ['install', 'lodash; rm -rf /'], cwd: '/tmp' });
+        child.stdout.emit('data', Buffer.from('added 1 package'));
+        child.emit('close', 0, null);
+        const output = await pending;
+
+        expect(spawn).toHaveBeenCalledWith(
+            'npm',
+            ['install', 'lodash; rm -rf /'],
+            expect.objectContaining({ cwd: '/tmp', shell: false })
+        );
+        expect(output).toEqual({ exitCode: 0, stdout: 'added 1 package', stderr: '', error: undefined, timedOut: false, aborted: false });
+    });
+
+    it('should stream output chunks as they arrive', async () => {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+        const chunks: string[] = [];
+
+        const pending = spawnRunner.run({
+            command: 'npm',
+            args: ['install', 'lodash'],
+            onStdout: chunk => chunks.push(`out:${chunk}`),
+            onStderr: chunk => chunks.push(`err:${chunk}`)
+        });
+        child.stdout.emit('data', Buffer.from('a'));
+        child.stderr.emit('data', Buffer.from('b'));
+        child.stdout.emit('data', Buffer.from('c'));
+        child.emit('close', 0, null);
+        const output = await pending;
+
+        expect(chunks).toEqual(['out:a', 'err:b', 'out:c']);
+        expect(output.stdout).toBe('ac');
+    });
+
+    it('should report a non-zero exit code with stderr in the error', async () => {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+
+        const pending = spawnRunner.run({ command: 'npm', args: ['install', 'nope'] });
+        child.stderr.emit('data', 'npm ERR! 404');
+        child.emit('close', 1, null);
+        const output = await pending;
+
+        expect(output.exitCode).toBe(1);
+        expect(output.error?.message).toContain('Command failed: npm install nope');
+        expect(output.error?.message).toContain('npm ERR! 404');
+    });
+
+    it('should resolve with the spawn error when the executable cannot be started', async () => {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+
+        const pending = spawnRunner.run({ command: 'npm', args: ['install', 'lodash'] });
+        child.emit('error', new Error('spawn npm ENOENT'));
+        child.emit('close', -2, null);
+        const output = await pending;
+
+        expect(output.exitCode).toBeNull();
+        expect(output.error?.message).toBe('spawn npm ENOENT');
+    });
+});
+
+describe('spawnRunner cancellation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should kill the process when the timeout elapses', async () => {
+        vi.useFakeTimers();
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+
+        const pending = spawnRunner.run({ command: 'npm', args: ['install', 'lodash'], timeoutMs: 1000 });
+        await vi.advanceTimersByTimeAsync(1000);
+        const output = await pending;
+
+        expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+        expect(output.timedOut).toBe(true);
+        expect(output.error?.message).toBe('Command timed out after 1000ms: npm install lodash');
+    });
+
+    it('should kill the process when the signal aborts', async () => {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+        const controller = new AbortController();
+
+        const pending = spawnRunner.run({ command: 'npm', args: ['install', 'lodash'], signal: controller.signal });
+        controller.abort();
+        const output = await pending;
+
+        expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+        expect(output.aborted).toBe(true);
+        expect(output.error?.message).toBe('Command aborted: npm install lodash');
+    });
+
+    it('should not spawn anything when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const output = await spawnRunner.run({ command: 'npm', args: ['install'], signal: controller.signal });
+
+        expect(spawn).not.toHaveBeenCalled();
+        expect(output.aborted).toBe(true);
+    });
+});
+
+describe('spawnRunner on Windows', () => {
+    let dir: string;
+    const platform = Object.getOwnPropertyDescriptor(process, 'platform')!;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'npm.cmd'), '');
+        await writeFile(join(dir, 'bun.exe'), '');
+        Object.defineProperty(process, 'platform', { ...platform, value: 'win32' });
+    });
+
+    afterEach(async () => {
+        Object.defineProperty(process, 'platform', platform);
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    async function run(command: string, args: string[]) {
+        const child = createChild();
+        vi.mocked(spawn).mockReturnValue(child as any);
+        const pending = spawnRunner.run({ command, args, env: { Path: dir, PATHEXT: '.exe;.cmd', ComSpec: 'C:\\Windows\\system32\\cmd.exe' } });
+        child.emit('close', 0, null);
+        return pending;
+    }
+
+    it('should run .cmd shims through cmd.exe with every argument escaped', async () => {
+        const output = await run('npm', ['install', 'a&b', 'say "hi"|x', '%PATH%']);
+
+        expect(output.exitCode).toBe(0);
+        const npm = join(dir, 'npm.cmd');
+        expect(spawn).toHaveBeenCalledWith(
+            'C:\\Windows\\system32\\cmd.exe',
+            ['/d', '/s', '/c', `"${npm} ^^^"install^^^" ^^^"a^^^&b^^^" ^^^"say^^^ \\^^^"hi\\^^^"^^^|x^^^" ^^^"^^^%PATH^^^%^^^""`],
+            expect.objectContaining({ shell: false, windowsVerbatimArguments: true })
+        );
+    });
+
+    it('should spawn executables directly', async () => {
+        await run('bun', ['add', 'a&b']);
+
+        expect(spawn).toHaveBeenCalledWith('bun', ['add', 'a&b'], expect.objectContaining({ shell: false }));
+        expect(vi.mocked(spawn).mock.calls[0][2]).not.toHaveProperty('windowsVerbatimArguments');
+    });
+});
+
+describe('formatInvocation', () => {
+    it('should join command and args for display', () => {
+        expect(formatInvocation({ command: 'npm', args: ['install', 'lodash', '-D'] })).toBe('npm install lodash -D');
+    });
+});
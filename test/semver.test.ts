@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersion, parseRange, compareVersions, satisfies } from '../src/semver';
+
+describe('parseVersion', () => {
+    it('should parse full versions', () => {
+        expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+        expect(parseVersion('v1.2.3-beta.1+build.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['beta', 1] });
+    });
+
+    it('should reject partial or malformed versions', () => {
+        expect(parseVersion('1.2')).toBeNull();
+        expect(parseVersion('01.2.3')).toBeNull();
+        expect(parseVersion('1.2.3; rm -rf /')).toBeNull();
+    });
+});
+
+describe('parseRange', () => {
+    it('should accept npm-style ranges', () => {
+        for (const range of ['*', '', 'x', '1', '1.2', '1.2.3', '^1.2.3', '~1.2', '~>1.2.3', '>=1.2.3 <2',
+            '>= 1.2.3', '1.x || >=2.1.0 <3', '1.0.0 - 1.4', '=1.2.3', 'v1.2.3', '1.2.3-rc.1']) {
+            expect(parseRange(range), range).not.toBeNull();
+        }
+    });
+
+    it('should reject invalid ranges', () => {
+        for (const range of ['^^1', 'latest', '1.2.3.4', '>=a', '1 - ', '$(whoami)']) {
+            expect(parseRange(range), range).toBeNull();
+        }
+    });
+
+    it('should desugar caret ranges into comparators', () => {
+        expect(parseRange('^0.2.3')).toEqual([[
+            { operator: '>=', version: { major: 0, minor: 2, patch: 3, prerelease: [] } },
+            { operator: '<', version: { major: 0, minor: 3, patch: 0, prerelease: [0] } }
+        ]]);
+    });
+});
+
+describe('compareVersions', () => {
+    it('should order versions by semver precedence', () => {
+        const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2',
+            '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.0.1', '1.1.0', '2.0.0'];
+        for (let i = 1; i < ordered.length; i++) {
+            expect(compareVersions(parseVersion(ordered[i - 1])!, parseVersion(ordered[i])!), ordered[i]).toBeLessThan(0);
+        }
+        expect(compareVersions(parseVersion('1.2.3')!, parseVersion('v1.2.3+build')!)).toBe(0);
+    });
+});
+
+describe('satisfies', () => {
+    it.each([
+        ['4.17.21', '^4.17.0', true],
+        ['5.0.0', '^4.17.0', false],
+        ['0.2.9', '^0.2.3', true],
+        ['0.3.0', '^0.2.3', false],
+        ['0.0.3', '^0.0.3', true],
+        ['0.0.4', '^0.0.3', false],
+        ['1.2.9', '~1.2.3', true],
+        ['1.3.0', '~1.2.3', false],
+        ['1.9.0', '1.x', true],
+        ['2.5.0', '1.x || >=2.1.0 <3', true],
+        ['2.0.5', '1.x || >=2.1.0 <3', false],
+        ['1.4.7', '1.0.0 - 1.4', true],
+        ['1.5.0', '1.0.0 - 1.4', false],
+        ['2.0.0', '>1', true],
+        ['1.9.9', '>1', false],
+        ['1.2.9', '<=1.2', true],
+        ['1.3.0', '<=1.2', false],
+        ['3.0.0', '*', true],
+        ['1.2.3', '1.2.3', true],
+        ['1.2.4', '1.2.3', false]
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+        expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('should only match prereleases when the range opts into them', () => {
+        expect(satisfies('1.3.0-beta.1', '^1.2.0')).toBe(false);
+        expect(satisfies('1.2.3-beta.2', '>=1.2.3-beta.1 <2')).toBe(true);
+        expect(satisfies('1.2.4-beta.2', '>=1.2.3-beta.1 <2')).toBe(false);
+    });
+
+    it('should never match invalid input', () => {
+        expect(satisfies('not-a-version', '*')).toBe(false);
+        expect(satisfies('1.2.3', '^^1')).toBe(false);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { validatePackageName, buildInstallSpec, parsePackageSpec, InvalidSpecError } from '../src/spec';
+
+describe('validatePackageName', () => {
+    it('should accept valid names', () => {
+        for (const name of ['lodash', '@types/node', 'package.name', 'package_name', 'a-b', 'JSONStream']) {
+            expect(validatePackageName(name)).toBeNull();
+        }
+    });
+
+    it('should reject names breaking npm naming rules', () => {
+        expect(validatePackageName('')).toContain('empty');
+        expect(validatePackageName('.hidden')).toContain('period or underscore');
+        expect(validatePackageName('_private')).toContain('period or underscore');
+        expect(validatePackageName('-D')).toContain('hyphen');
+        expect(validatePackageName(' lodash')).toContain('spaces');
+        expect(validatePackageName('node_modules')).toContain('reserved');
+        expect(validatePackageName('a'.repeat(215))).toContain('214');
+        expect(validatePackageName('../evil')).toContain('period');
+        expect(validatePackageName('foo/bar')).toContain('URL-friendly');
+        expect(validatePackageName('@scope/../evil')).toContain('@scope/name');
+        expect(validatePackageName('@scope/.evil')).toContain('period');
+        expect(validatePackageName('what(ever)')).toContain('special characters');
+        expect(validatePackageName('lodash@4')).toContain('`version` field');
+    });
+});
+
+describe('buildInstallSpec', () => {
+    it('should build install arguments for every spec kind', () => {
+        expect(buildInstallSpec({ name: 'lodash' })).toBe('lodash');
+        expect(buildInstallSpec({ name: 'lodash', version: '~4.17.0' })).toBe('lodash@~4.17.0');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'tag', tag: 'beta' } })).toBe('x@beta');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'git', url: 'github:user/x', ref: 'v1.0.0' } }))
+            .toBe('x@github:user/x#v1.0.0');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'git', url: 'git+https://host/x.git', ref: 'semver:^1' } }))
+            .toBe('x@git+https://host/x.git#semver:^1');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'tarball', url: 'https://host/x-1.0.0.tgz' } }))
+            .toBe('x@https://host/x-1.0.0.tgz');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'file', path: '../x' } })).toBe('x@file:../x');
+        expect(buildInstallSpec({ name: 'x', source: { type: 'alias', package: '@org/y' } })).toBe('x@npm:@org/y');
+    });
+
+    it('should throw typed errors naming the failing part', () => {
+        const attempt = (spec: Parameters<typeof buildInstallSpec>[0]) => {
+            try {
+                buildInstallSpec(spec);
+            } catch (error) {
+                return error as InvalidSpecError;
+            }
+            throw new Error('expected buildInstallSpec to throw');
+        };
+
+        expect(attempt({ name: '../evil' }).kind).toBe('name');
+        expect(attempt({ name: 'x', version: 'next' }).kind).toBe('version');
+        expect(attempt({ name: 'x', version: '1', source: { type: 'tag', tag: 'beta' } }).kind).toBe('version');
+        expect(attempt({ name: 'x', source: { type: 'tag', tag: '1.x' } }).message).toContain('use the `version` field');
+        expect(attempt({ name: 'x', source: { type: 'git', url: 'https://host/x.git' } }).message).toContain('not a supported git URL');
+        expect(attempt({ name: 'x', source: { type: 'git', url: 'github:user/x', ref: '--upload-pack=evil' } }).message)
+            .toContain('not a valid git ref');
+        expect(attempt({ name: 'x', source: { type: 'tarball', url: 'not a url' } }).message).toContain('not a valid URL');
+        expect(attempt({ name: 'x', source: { type: 'file', path: '' } }).kind).toBe('source');
+        expect(attempt({ name: 'x', source: { type: 'alias', package: '../y' } }).message).toContain('alias target ../y');
+    });
+});
+
+describe('parsePackageSpec', () => {
+    it('should parse spec strings into their typed form', () => {
+        expect(parsePackageSpec('lodash')).toEqual({ name: 'lodash' });
+        expect(parsePackageSpec('lodash@^4.17.0')).toEqual({ name: 'lodash', version: '^4.17.0' });
+        expect(parsePackageSpec('@scope/pkg@next')).toEqual({ name: '@scope/pkg', source: { type: 'tag', tag: 'next' } });
+        expect(parsePackageSpec('a@npm:@org/b@1.2.3')).toEqual({
+            name: 'a',
+            source: { type: 'alias', package: '@org/b', version: '1.2.3' }
+        });
+        expect(parsePackageSpec('a@github:user/a#main')).toEqual({
+            name: 'a',
+            source: { type: 'git', url: 'github:user/a', ref: 'main' }
+        });
+        expect(parsePackageSpec('a@https://host/a.tgz')).toEqual({ name: 'a', source: { type: 'tarball', url: 'https://host/a.tgz' } });
+        expect(parsePackageSpec('a@file:../a')).toEqual({ name: 'a', source: { type: 'file', path: '../a' } });
+    });
+
+    it('should throw for invalid specs', () => {
+        expect(() => parsePackageSpec('../evil@1')).toThrow(InvalidSpecError);
+        expect(() => parsePackageSpec('lodash@not a tag')).toThrow('not a valid dist-tag');
+    });
+});
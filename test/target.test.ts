@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    installDependencies,
+    ensureDependencies,
+    planInstallation,
+    resolvePackagePath,
+    resolveModulePath,
+    type CommandInvocation
+} from '../src/index';
+import { initPluginDirectory, PLUGIN_DIRECTORY_MANIFEST } from '../src/target';
+
+describe('install target', () => {
+    let dir: string;
+
+    const createRunner = () => ({
+        run: vi.fn(async (_: CommandInvocation) => ({ exitCode: 0, stdout: '', stderr: '' }))
+    });
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should run the package manager in cwd, resolved against the process cwd', async () => {
+        await mkdir(join(dir, 'app'));
+        vi.spyOn(process, 'cwd').mockReturnValue(dir);
+        const runner = createRunner();
+
+        await installDependencies({ dependencies: [{ name: 'lodash' }], cwd: 'app', verbose: false, runner });
+
+        expect(runner.run).toHaveBeenCalledWith(expect.objectContaining({ cwd: join(dir, 'app') }));
+    });
+
+    it('should fail every dependency when cwd does not exist', async () => {
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'lodash' }, { name: 'axios' }],
+            cwd: join(dir, 'missing'),
+            verbose: false,
+            runner
+        });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details.map(detail => detail.error?.code)).toEqual(['INVALID_TARGET', 'INVALID_TARGET']);
+        expect(result.details[0].message).toBe(`Install directory does not exist: ${join(dir, 'missing')}`);
+    });
+
+    it('should create a managed directory with its own package.json', async () => {
+        const plugins = join(dir, 'plugins');
+        const runner = createRunner();
+
+        const result = await installDependencies({
+            dependencies: [{ name: 'my-plugin' }],
+            cwd: plugins,
+            managed: true,
+            verbose: false,
+            runner
+        });
+
+        expect(result.success).toBe(true);
+        expect(runner.run).toHaveBeenCalledWith(expect.objectContaining({ cwd: plugins }));
+        expect(JSON.parse(await readFile(join(plugins, 'package.json'), 'utf8'))).toEqual(PLUGIN_DIRECTORY_MANIFEST);
+    });
+
+    it('should require a cwd in managed mode', async () => {
+        const result = await installDependencies({ dependencies: [{ name: 'lodash' }], managed: true, verbose: false, runner: createRunner() });
+
+        expect(result.details[0].error?.code).toBe('INVALID_TARGET');
+        expect(result.details[0].message).toBe('Managed mode requires a cwd');
+    });
+
+    it('should plan a managed install without creating the directory', async () => {
+        const plugins = join(dir, 'plugins');
+
+        const plan = await planInstallation({ dependencies: [{ name: 'my-plugin' }], cwd: plugins, managed: true });
+
+        expect(plan.valid).toBe(true);
+        expect(plan.cwd).toBe(plugins);
+        await expect(readFile(join(plugins, 'package.json'))).rejects.toThrow();
+    });
+
+    it('should check and resolve packages installed in cwd', async () => {
+        const pkg = join(dir, 'node_modules', 'my-plugin');
+        await mkdir(join(pkg, 'dist'), { recursive: true });
+        await writeFile(join(pkg, 'package.json'), JSON.stringify({ name: 'my-plugin', version: '1.2.0', main: 'dist/index.js' }));
+        await writeFile(join(pkg, 'dist', 'index.js'), '');
+        const runner = createRunner();
+
+        const result = await ensureDependencies({ dependencies: [{ name: 'my-plugin', version: '^1.0.0' }], cwd: dir, verbose: false, runner });
+
+        expect(runner.run).not.toHaveBeenCalled();
+        expect(result.details[0].status).toBe('already-satisfied');
+        expect(await resolvePackagePath('my-plugin', dir)).toBe(pkg);
+        expect(await resolveModulePath('my-plugin', { cwd: dir })).toBe(join(pkg, 'dist', 'index.js'));
+        expect(await resolvePackagePath('other-plugin', dir)).toBeNull();
+        expect(await resolvePackagePath('../my-plugin', join(dir, 'node_modules'))).toBeNull();
+    });
+});
+
+describe('initPluginDirectory', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep an existing package.json', async () => {
+        const manifest = JSON.stringify({ private: true, dependencies: { 'my-plugin': '^1.0.0' } });
+        await writeFile(join(dir, 'package.json'), manifest);
+
+        await initPluginDirectory(dir);
+
+        expect(await readFile(join(dir, 'package.json'), 'utf8')).toBe(manifest);
+    });
+
+    it('should refuse a corrupt package.json', async () => {
+        await writeFile(join(dir, 'package.json'), '{');
+
+        await expect(initPluginDirectory(dir)).rejects.toThrow('Invalid package.json in plugin directory');
+    });
+});
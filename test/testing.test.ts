@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { access, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFakeRunner, createRecorder, createReplayRunner, loadFixture } from '../src/testing';
+import { installDependencies, ensureDependencies, uninstallDependencies, type InstallEvent } from '../src/index';
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+describe('createFakeRunner', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+        await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should answer each package from its script', async () => {
+        const runner = createFakeRunner({
+            packages: {
+                lodash: { stdout: 'added 1 package' },
+                'left-pad': { exitCode: 1, stderr: 'npm ERR! code E404' }
+            }
+        });
+        const events: InstallEvent[] = [];
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'lodash', version: '^4.17.0' }, { name: 'left-pad' }],
+            verbose: false,
+            runner,
+            onEvent: event => events.push(event)
+        });
+
+        expect(runner.calls.map(call => call.args)).toEqual([['install', 'lodash@^4.17.0'], ['install', 'left-pad']]);
+        expect(result.details.map(detail => detail.success)).toEqual([true, false]);
+        expect(result.details[1].error?.code).toBe('E404');
+        expect(events).toContainEqual({ type: 'stdout', dependencies: ['lodash'], chunk: 'added 1 package' });
+    });
+
+    it('should fail a batch when any of its packages fails, with a default error', async () => {
+        const runner = createFakeRunner({ packages: { 'left-pad': { exitCode: 1 } } });
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'lodash' }, { name: 'left-pad' }],
+            strategy: 'batched',
+            verbose: false,
+            runner
+        });
+
+        expect(result.details.map(detail => detail.success)).toEqual([false, false]);
+        expect(result.logs).toContain('npm ERR! left-pad failed');
+    });
+
+    it('should play a list of outcomes one call after the other', async () => {
+        const runner = createFakeRunner({
+            packages: { lodash: [{ exitCode: 1, stderr: 'npm ERR! code ECONNRESET' }, { stdout: 'added 1 package' }] }
+        });
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'lodash' }],
+            retry: { attempts: 3, delayMs: 1 },
+            verbose: false,
+            runner
+        });
+
+        expect(result.details[0]).toMatchObject({ success: true, attempts: 2 });
+    });
+
+    it('should answer commands without packages by subcommand', async () => {
+        const runner = createFakeRunner({ commands: { audit: { exitCode: 1, stdout: '{"auditReportVersion":2,"vulnerabilities":{}}' } } });
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'lodash' }], audit: true, verbose: false, runner });
+
+        expect(result.audit).toMatchObject({ success: true, passed: true });
+    });
+
+    it('should write and remove installed packages when asked to', async () => {
+        const runner = createFakeRunner({ packages: { lodash: { version: '4.17.21' } }, writePackages: true });
+        const options = { cwd: dir, dependencies: [{ name: 'lodash', version: '^4.17.0' }], verbose: false, runner };
+
+        expect((await installDependencies(options)).details[0].version).toBe('4.17.21');
+        expect((await ensureDependencies(options)).details[0].status).toBe('already-satisfied');
+
+        await uninstallDependencies({ ...options, dependencies: [{ name: 'lodash' }] });
+        expect(await exists(join(dir, 'node_modules', 'lodash'))).toBe(false);
+    });
+
+    it('should report an aborted command', async () => {
+        const controller = new AbortController();
+        const runner = createFakeRunner({ fallback: { delayMs: 50 } });
+        setTimeout(() => controller.abort(), 10);
+
+        const result = await installDependencies({ cwd: dir, dependencies: [{ name: 'lodash' }], signal: controller.signal, verbose: false, runner });
+
+        expect(result.details[0]).toMatchObject({ success: false, aborted: true, error: { code: 'ABORTED' } });
+    });
+
+    it('should stop a command as soon as the signal aborts', async () => {
+        const controller = new AbortController();
+        const runner = createFakeRunner({ fallback: { delayMs: 5000 } });
+        setTimeout(() => controller.abort(), 10);
+        const started = Date.now();
+
+        const output = await runner.run({ command: 'npm', args: ['install', 'lodash'], signal: controller.signal });
+
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(output).toMatchObject({ exitCode: null, aborted: true });
+        expect(output.error?.message).toBe('Command aborted: npm install lodash');
+    });
+
+    it('should time out a command taking longer than its timeout', async () => {
+        const runner = createFakeRunner({ packages: { slow: { delayMs: 300 } }, writePackages: true });
+
+        const result = await installDependencies({
+            cwd: dir,
+            dependencies: [{ name: 'slow', timeoutMs: 50 }, { name: 'fast', timeoutMs: 50 }],
+            verbose: false,
+            runner
+        });
+
+        expect(result.details[0]).toMatchObject({ success: false, status: 'failed', timedOut: true, error: { code: 'TIMEOUT' } });
+        expect(result.details[0].message).toContain('Command timed out after 50ms: npm install slow');
+        expect(result.details[1]).toMatchObject({ success: true, status: 'installed' });
+        expect(await exists(join(dir, 'node_modules', 'slow'))).toBe(false);
+    });
+});
+
+describe('record and replay', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dynamic-installer-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should replay a recorded run from its fixture', async () => {
+        const recorder = createRecorder(createFakeRunner({ packages: { 'left-pad': { exitCode: 1, stderr: 'npm ERR! code E404' } } }));
+        const options = { cwd: dir, dependencies: [{ name: 'lodash' }, { name: 'left-pad' }], verbose: false };
+        const recorded = await installDependencies({ ...options, runner: recorder });
+        const path = join(dir, 'install.json');
+        await recorder.save(path);
+
+        expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+            version: 1,
+            commands: [
+                { command: 'npm', args: ['install', 'lodash'], exitCode: 0, stdout: '', stderr: '' },
+                { command: 'npm', args: ['install', 'left-pad'], exitCode: 1, stdout: '', stderr: 'npm ERR! code E404' }
+            ]
+        });
+
+        const runner = createReplayRunner(await loadFixture(path));
+        const replayed = await installDependencies({ ...options, runner });
+
+        expect(replayed.details).toEqual(recorded.details);
+        expect(runner.remaining()).toEqual([]);
+    });
+
+    it('should record failures of the underlying runner', async () => {
+        const recorder = createRecorder({ run: async () => { throw new Error('spawn npm ENOENT'); } });
+
+        const output = await recorder.run({ command: 'npm', args: ['install', 'lodash'] });
+
+        expect(output.error?.message).toBe('spawn npm ENOENT');
+        expect(recorder.commands).toEqual([{ command: 'npm', args: ['install', 'lodash'], exitCode: null, stdout: '', stderr: '', error: 'spawn npm ENOENT' }]);
+    });
+
+    it('should fail commands that were not recorded', async () => {
+        const fixture = [
+            { command: 'npm', args: ['install', 'a'], exitCode: 0, stdout: '', stderr: '' },
+            { command: 'npm', args: ['install', 'b'], exitCode: 0, stdout: '', stderr: '' }
+        ];
+
+        const any = createReplayRunner(fixture);
+        expect((await any.run({ command: 'npm', args: ['install', 'b'] })).exitCode).toBe(0);
+        expect((await any.run({ command: 'npm', args: ['install', 'b'] })).error?.message).toBe('No recorded command for: npm install b');
+
+        const ordered = createReplayRunner(fixture, { ordered: true });
+        expect((await ordered.run({ command: 'npm', args: ['install', 'b'] })).error?.message)
+            .toBe('No recorded command for: npm install b (expected: npm install a)');
+        expect(ordered.remaining()).toHaveLength(2);
+    });
+
+    it('should reject files that are not fixtures', async () => {
+        const path = join(dir, 'other.json');
+        await writeFile(path, '{"commands":{}}');
+
+        await expect(loadFixture(path)).rejects.toThrow(`Not a command fixture: ${path}`);
+    });
+});